@@ -1,36 +1,54 @@
 import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
+import { createNodeWebSocket } from '@hono/node-ws';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { writeFile, mkdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { findAvailablePort } from './utils/port.js';
+import { isAllowedOrigin } from './utils/origin.js';
 import { testConnection } from './services/docker.js';
 import containers from './routes/containers.js';
 import images from './routes/images.js';
 import volumes from './routes/volumes.js';
 import dockerfiles from './routes/dockerfiles.js';
 import configRoutes from './routes/config.js';
+import eventRoutes from './routes/events.js';
+import buildRoutes from './routes/builds.js';
+import statsRoutes from './routes/stats.js';
+import sshKeyRoutes from './routes/ssh-keys.js';
+import sshConfigRoutes from './routes/ssh-config.js';
+import { createTerminalRoutes } from './routes/terminal.js';
+import { startDockerEventStream } from './services/events.js';
+import { markInterruptedBuilds, pruneBuildRecords } from './services/build-history.js';
+import { startReaper } from './services/reaper.js';
+import { startKeySync } from './services/key-rotation.js';
+import { syncSshConfigFile } from './services/ssh-config.js';
+import { startHostKeySync } from './services/host-keys.js';
+import { startReadinessProbes } from './services/readiness.js';
+import { applyGatewayConfig } from './services/ssh-gateway.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, '..', '..', '..');
 const PORT_FILE = join(PROJECT_ROOT, 'data', '.server-port');
 
 const app = new Hono();
+const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
 
 // Middleware
 app.use('*', logger());
 app.use('*', cors({
   origin: (origin) => {
     // Allow any localhost origin (handles dynamic ports)
-    if (!origin || origin.match(/^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/)) {
+    if (isAllowedOrigin(origin)) {
       return origin || '*';
     }
     return null;
   },
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-  allowHeaders: ['Content-Type'],
+  allowHeaders: ['Content-Type', 'Last-Event-ID'],
+  exposeHeaders: ['X-Total-Count'],
 }));
 
 // Health check
@@ -44,20 +62,16 @@ app.get('/api/health', async (c) => {
 
 // Routes
 app.route('/api/containers', containers);
+app.route('/api/containers', createTerminalRoutes(upgradeWebSocket));
 app.route('/api/images', images);
 app.route('/api/volumes', volumes);
 app.route('/api/dockerfiles', dockerfiles);
 app.route('/api/config', configRoutes);
-
-// SSE for real-time events (placeholder for now)
-app.get('/api/events', (c) => {
-  // TODO: Implement Docker event streaming
-  c.header('Content-Type', 'text/event-stream');
-  c.header('Cache-Control', 'no-cache');
-  c.header('Connection', 'keep-alive');
-
-  return c.body('data: {"type":"connected"}\n\n');
-});
+app.route('/api/events', eventRoutes);
+app.route('/api/builds', buildRoutes);
+app.route('/api/stats', statsRoutes);
+app.route('/api/ssh-keys', sshKeyRoutes);
+app.route('/api/ssh-config', sshConfigRoutes);
 
 async function main() {
   const DEFAULT_PORT = 4001; // Use higher port to avoid conflicts
@@ -76,7 +90,32 @@ async function main() {
     console.log('✓ Docker connection established');
   }
 
-  serve({
+  // Close out builds a previous run left unfinished
+  await markInterruptedBuilds().catch((err) => console.error('Failed to update build history:', err));
+  await pruneBuildRecords().catch((err) => console.error('Failed to prune build history:', err));
+
+  // Subscribe to Docker events (retries in the background if Docker is down)
+  await startDockerEventStream();
+
+  // Stop containers past their TTL or idle timeout
+  startReaper();
+
+  // Bring the app SSH key up to date in containers as they start
+  await startKeySync();
+
+  // Record host keys as containers start, for the served known_hosts
+  startHostKeySync();
+
+  // Track whether sshd is answering in each running container
+  await startReadinessProbes();
+
+  // One SSH port for all containers, if enabled
+  await applyGatewayConfig().catch((err) => console.error('Failed to start SSH gateway:', err));
+
+  // Keep acm_known_hosts, and the Include-able ssh config if enabled, current
+  await syncSshConfigFile().catch((err) => console.error('Failed to write ssh config:', err));
+
+  const server = serve({
     fetch: app.fetch,
     port,
   }, (info) => {
@@ -84,6 +123,9 @@ async function main() {
     console.log(`   Running on http://localhost:${info.port}`);
     console.log(`   API docs: http://localhost:${info.port}/api/health\n`);
   });
+
+  // Handle WebSocket upgrades (container terminals)
+  injectWebSocket(server);
 }
 
 main().catch(console.error);
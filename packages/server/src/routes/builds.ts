@@ -0,0 +1,34 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import * as buildHistory from '../services/build-history.js';
+import { BuildHistoryQuerySchema } from '../types/index.js';
+
+const builds = new Hono();
+
+// List build history, newest first (filter by status/name, paged)
+builds.get('/', zValidator('query', BuildHistoryQuerySchema), async (c) => {
+  const query = c.req.valid('query');
+
+  try {
+    const { builds: records, total } = await buildHistory.listBuildRecords(query);
+    // Log tails can be large; fetch a single build for those
+    const summaries = records.map(({ logTail: _logTail, ...record }) => record);
+    return c.json({ builds: summaries, total, limit: query.limit, offset: query.offset });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Get a single build record including its log tail
+builds.get('/:id', async (c) => {
+  const record = await buildHistory.getBuildRecord(c.req.param('id'));
+
+  if (!record) {
+    return c.json({ error: 'Build not found' }, 404);
+  }
+
+  return c.json(record);
+});
+
+export default builds;
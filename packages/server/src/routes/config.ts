@@ -5,11 +5,27 @@ import { readdir, stat } from 'fs/promises';
 import { join } from 'path';
 import { homedir } from 'os';
 import { getConfig, setConfig } from '../services/config.js';
+import { getRotationStatus, rotateAppKey } from '../services/key-rotation.js';
+import { syncSshConfigFile, removeSshConfigFile, removeKnownHostsFile } from '../services/ssh-config.js';
+import { applyGatewayConfig, listGatewayOnlyContainers } from '../services/ssh-gateway.js';
+import { validateLimitDefaults } from '../services/resource-limits.js';
+import { ResourceLimitsSchema, RotateSshKeySchema } from '../types/index.js';
 
 const configRoutes = new Hono();
 
 const UpdateConfigSchema = z.object({
   sshKeysDisplayPath: z.string().min(1).optional(),
+  maxConcurrentBuilds: z.number().int().min(1).max(32).optional(),
+  stopTimeout: z.number().int().min(0).max(600).optional(),
+  sshKeyMode: z.enum(['shared', 'container']).optional(),
+  writeSshConfig: z.boolean().optional(),
+  stableHostKeys: z.boolean().optional(),
+  readinessTimeout: z.number().int().min(5).max(900).optional(),
+  healthCommand: z.string().max(1000).optional(),
+  sshGateway: z.boolean().optional(),
+  sshGatewayPort: z.number().int().min(1).max(65535).optional(),
+  resourceDefaults: ResourceLimitsSchema.optional(),
+  resourceMaximums: ResourceLimitsSchema.optional(),
 });
 
 const BrowseDirectorySchema = z.object({
@@ -25,10 +41,80 @@ configRoutes.get('/', async (c) => {
 // Update config
 configRoutes.patch('/', zValidator('json', UpdateConfigSchema), async (c) => {
   const updates = c.req.valid('json');
+  const previous = await getConfig();
+
+  try {
+    validateLimitDefaults(
+      updates.resourceDefaults ?? previous.resourceDefaults,
+      updates.resourceMaximums ?? previous.resourceMaximums
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid resource limits';
+    return c.json({ error: `Default resource limits don't fit the maximums: ${message}` }, 400);
+  }
+
+  // Containers made while the gateway was on have no SSH port to fall back to
+  if (previous.sshGateway && updates.sshGateway === false) {
+    const gatewayOnly = await listGatewayOnlyContainers();
+    if (gatewayOnly.length > 0) {
+      return c.json({
+        error: `These containers have no SSH port of their own and are only reachable through the gateway: ` +
+          `${gatewayOnly.map((container) => container.name).join(', ')}. Remove them before turning the gateway off`,
+      }, 409);
+    }
+  }
+
   const newConfig = await setConfig(updates);
+
+  try {
+    await applyGatewayConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: `Settings saved, but the SSH gateway failed to start: ${message}` }, 500);
+  }
+
+  // Move or remove the generated ssh config and known_hosts to match
+  try {
+    const moved = previous.sshKeysDisplayPath !== newConfig.sshKeysDisplayPath;
+    if (previous.writeSshConfig && (!newConfig.writeSshConfig || moved)) {
+      await removeSshConfigFile(previous.sshKeysDisplayPath);
+    }
+    if (moved) {
+      await removeKnownHostsFile(previous.sshKeysDisplayPath);
+    }
+    await syncSshConfigFile();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: `Settings saved, but writing the ssh config failed: ${message}` }, 500);
+  }
+
   return c.json(newConfig);
 });
 
+// App-wide SSH key rotation status
+configRoutes.get('/ssh-key', async (c) => {
+  return c.json(await getRotationStatus());
+});
+
+// Replace the app-wide SSH key; running containers are updated in place,
+// the rest when they next start. Refused while the previous key's grace
+// window is open, since rotating again would cut that key off early.
+configRoutes.post('/ssh-key/rotate', zValidator('json', RotateSshKeySchema), async (c) => {
+  const { graceHours } = c.req.valid('json');
+
+  const { graceUntil } = await getRotationStatus();
+  if (graceUntil) {
+    return c.json({ error: `The previous key is still accepted until ${graceUntil}; rotate again after that` }, 409);
+  }
+
+  try {
+    return c.json(await rotateAppKey(graceHours));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
 // Browse directories for folder picker
 configRoutes.post('/browse', zValidator('json', BrowseDirectorySchema), async (c) => {
   const { path: requestedPath } = c.req.valid('json');
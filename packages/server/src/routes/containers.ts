@@ -3,35 +3,217 @@ import { zValidator } from '@hono/zod-validator';
 import * as dockerService from '../services/docker.js';
 import * as containerBuilder from '../services/container-builder.js';
 import * as buildTracker from '../services/build-tracker.js';
-import { CreateContainerSchema, ReconfigureContainerSchema } from '../types/index.js';
-import { findAvailableSshPort } from '../utils/port.js';
+import * as buildScheduler from '../services/build-scheduler.js';
+import {
+  CreateContainerSchema,
+  ReconfigureContainerSchema,
+  ContainerLogsQuerySchema,
+  CreateSnapshotSchema,
+  RestoreSnapshotSchema,
+  CloneContainerSchema,
+  UpdateContainerMetadataSchema,
+  StopContainerQuerySchema,
+  KillContainerQuerySchema,
+  BulkActionSchema,
+  ContainerListQuerySchema,
+} from '../types/index.js';
+import type { ContainerInfo } from '../types/index.js';
+import { sseResponse, startHeartbeat } from '../utils/sse.js';
+import { resolveResourceLimits } from '../services/resource-limits.js';
+import {
+  reconfigureContainer,
+  restoreContainerSnapshot,
+  updateContainerMetadata,
+} from '../services/reconfigure.js';
+import * as snapshots from '../services/snapshots.js';
+import { cloneContainer } from '../services/clone.js';
+import * as reaper from '../services/reaper.js';
+import * as readiness from '../services/readiness.js';
+import { runBulkAction, selectContainers } from '../services/bulk.js';
+import { buildContainerFilter, applyContainerFilter } from '../services/container-query.js';
+import * as sshKeys from '../services/ssh-keys.js';
+import { findMissingKeys } from '../services/authorized-keys.js';
+import { renderKnownHosts } from '../services/host-keys.js';
 
 const containers = new Hono();
 
-// List all containers (includes active/failed builds as pseudo-containers)
-containers.get('/', async (c) => {
+// List containers, including active/failed builds as pseudo-containers unless
+// includeBuilds=false. Filtered and sorted per the query; the unpaginated
+// match count is returned in X-Total-Count.
+containers.get('/', zValidator('query', ContainerListQuerySchema), async (c) => {
+  const query = c.req.valid('query');
+
+  let filter;
+  try {
+    filter = buildContainerFilter(query);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid search query';
+    return c.json({ error: message }, 400);
+  }
+
   const [containerList, builds] = await Promise.all([
     dockerService.listContainers(),
-    Promise.resolve(buildTracker.listBuilds()),
+    Promise.resolve(query.includeBuilds === false ? [] : buildTracker.listBuilds()),
   ]);
 
   // Convert builds to container-like objects for the UI
   const buildContainers = builds
-    .filter((b) => b.status === 'building' || b.status === 'failed')
+    .filter((b) => buildTracker.isBuildActive(b) || b.status === 'failed')
     .map((b) => ({
       id: b.id,
       name: b.name,
-      image: b.status === 'building' ? 'building...' : 'build failed',
-      status: b.status === 'building' ? 'Building image...' : `Failed: ${b.error}`,
-      state: (b.status === 'building' ? 'building' : 'failed') as 'building' | 'failed',
+      image: b.status === 'failed' ? 'build failed' : 'building...',
+      status: describeBuild(b),
+      state: b.status as 'queued' | 'building' | 'failed',
       sshPort: null,
       sshCommand: null,
       volumes: [],
       ports: [],
+      labels: {},
+      tags: [],
+      sshKeyMode: 'shared' as const,
+      authorizedKeys: [],
+      includeAppKey: true,
       createdAt: b.startedAt,
     }));
 
-  return c.json([...buildContainers, ...containerList]);
+  const matches = applyContainerFilter([...buildContainers, ...containerList.map(withRuntimeState)], filter);
+  const page = query.limit === undefined
+    ? matches.slice(query.offset)
+    : matches.slice(query.offset, query.offset + query.limit);
+
+  c.header('X-Total-Count', String(matches.length));
+  return c.json(page);
+});
+
+// Add state the server tracks in memory rather than in Docker
+function withRuntimeState(container: ContainerInfo): ContainerInfo {
+  const withReady = readiness.withReadiness(container);
+  if (!withReady.lifecycle) return withReady;
+  return {
+    ...withReady,
+    lifecycle: { ...withReady.lifecycle, idleStopAt: reaper.getIdleStopAt(container) },
+  };
+}
+
+function describeBuild(build: buildTracker.BuildStatus): string {
+  switch (build.status) {
+    case 'queued':
+      return `Queued (position ${build.queuePosition ?? '?'} of ${buildScheduler.getQueueLength()})`;
+    case 'failed':
+      return `Failed: ${build.error}`;
+    default:
+      return 'Building image...';
+  }
+}
+
+// Stream a container build's log as SSE: buffered output first, then live
+// lines until the build finishes ("done" or "error" event). Reconnecting
+// clients resume via Last-Event-ID.
+containers.get('/builds/:buildId/logs', (c) => {
+  const buildId = c.req.param('buildId');
+  const build = buildTracker.getBuild(buildId);
+
+  if (!build) {
+    return c.json({ error: 'Build not found' }, 404);
+  }
+
+  const lastEventId = parseInt(c.req.header('Last-Event-ID') || '', 10) || 0;
+
+  return sseResponse((writer) => {
+    const finish = () => {
+      const current = buildTracker.getBuild(buildId);
+      if (current?.status === 'failed') {
+        writer.send('error', current.error || 'Build failed');
+      } else if (current?.status === 'cancelled') {
+        writer.send('error', 'Build cancelled');
+      } else {
+        writer.send('done', current?.containerId || '');
+      }
+      writer.close();
+    };
+
+    for (const entry of buildTracker.getBuildLogs(buildId, lastEventId)) {
+      writer.send('log', entry.message, entry.seq);
+    }
+
+    if (!buildTracker.isBuildActive(build)) {
+      finish();
+      return;
+    }
+
+    const unsubscribe = buildTracker.subscribeToBuildLogs(buildId, (entry) => {
+      if (entry) {
+        writer.send('log', entry.message, entry.seq);
+      } else {
+        finish();
+      }
+    });
+    writer.onClose(unsubscribe);
+
+    startHeartbeat(writer);
+  });
+});
+
+// Cancel an in-flight container build
+containers.delete('/builds/:buildId', (c) => {
+  const buildId = c.req.param('buildId');
+  const build = buildTracker.getBuild(buildId);
+
+  if (!build) {
+    return c.json({ error: 'Build not found' }, 404);
+  }
+
+  if (!buildTracker.cancelBuild(buildId)) {
+    return c.json({ error: 'Build is not in progress' }, 409);
+  }
+
+  return c.json({ success: true });
+});
+
+// Run one action across many containers (by IDs, name glob or labels)
+containers.post('/bulk', zValidator('json', BulkActionSchema), async (c) => {
+  const body = c.req.valid('json');
+
+  const containerList = await dockerService.listContainers();
+
+  let selection;
+  try {
+    selection = selectContainers(body.selector, containerList);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid selector';
+    return c.json({ error: message }, 400);
+  }
+
+  try {
+    const results = await runBulkAction(body, selection);
+    const failed = results.filter((r) => !r.success).length;
+    return c.json({
+      action: body.action,
+      results,
+      succeeded: results.length - failed,
+      failed,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// known_hosts with the recorded host keys of every container (registered
+// before /:id so it isn't taken for a container ID)
+containers.get('/known-hosts', async (c) => {
+  try {
+    const content = await renderKnownHosts();
+    c.header('Content-Type', 'text/plain; charset=utf-8');
+    if (c.req.query('download') !== undefined) {
+      c.header('Content-Disposition', 'attachment; filename="acm_known_hosts"');
+    }
+    return c.body(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
 });
 
 // Get single container
@@ -43,7 +225,27 @@ containers.get('/:id', async (c) => {
     return c.json({ error: 'Container not found' }, 404);
   }
 
-  return c.json(container);
+  return c.json(withRuntimeState(container));
+});
+
+// Update tags and notes. Labels are immutable in Docker, so the container is
+// recreated (and restarted if running); its ID changes.
+containers.patch('/:id', zValidator('json', UpdateContainerMetadataSchema), async (c) => {
+  const id = c.req.param('id');
+  const metadata = c.req.valid('json');
+
+  try {
+    const container = await dockerService.getContainer(id);
+    if (!container) {
+      return c.json({ error: 'Container not found' }, 404);
+    }
+
+    const updated = await updateContainerMetadata(container, metadata);
+    return c.json(withRuntimeState(updated));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
 });
 
 // Create container (starts build in background, returns immediately)
@@ -56,24 +258,45 @@ containers.post('/', zValidator('json', CreateContainerSchema), async (c) => {
     return c.json({ error: 'A build is already in progress for this container name' }, 409);
   }
 
+  const missingKeys = await findMissingKeys(body.authorizedKeys || []);
+  if (missingKeys.length > 0) {
+    return c.json({ error: `Unknown SSH keys: ${missingKeys.join(', ')}` }, 400);
+  }
+
+  let request;
+  try {
+    request = { ...body, resources: await resolveResourceLimits(body.resources) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid resource limits';
+    return c.json({ error: message }, 400);
+  }
+
   // Create build tracker entry
-  const build = buildTracker.createBuild(body.name);
-
-  // Start build in background (don't await)
-  containerBuilder.buildAndCreateContainer(body)
-    .then((result) => {
-      buildTracker.completeBuild(build.id, result.container.id);
-    })
-    .catch((error) => {
+  const priority = body.priority ?? 0;
+  const build = buildTracker.createBuild(body.name, request, priority);
+  const signal = buildTracker.getBuildSignal(build.id);
+
+  // Queue the build; it runs in the background once a slot is free
+  buildScheduler.enqueueBuild(build.id, priority, async () => {
+    buildTracker.startBuild(build.id);
+    try {
+      const result = await containerBuilder.buildAndCreateContainer(request, {
+        onLog: (message) => buildTracker.appendBuildLog(build.id, message),
+        signal,
+      });
+      buildTracker.completeBuild(build.id, result.container.id, result.image);
+    } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       buildTracker.failBuild(build.id, message);
-    });
+    }
+  }, signal);
 
   // Return immediately with build info
   return c.json({
     buildId: build.id,
-    status: 'building',
-    message: 'Container build started in background',
+    status: 'queued',
+    queuePosition: buildScheduler.getQueuePosition(build.id),
+    message: 'Container build queued',
   }, 202);
 });
 
@@ -91,11 +314,12 @@ containers.post('/:id/start', async (c) => {
 });
 
 // Stop container
-containers.post('/:id/stop', async (c) => {
+containers.post('/:id/stop', zValidator('query', StopContainerQuerySchema), async (c) => {
   const id = c.req.param('id');
+  const { timeout } = c.req.valid('query');
 
   try {
-    await dockerService.stopContainer(id);
+    await dockerService.stopContainer(id, timeout);
     return c.json({ success: true });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -103,10 +327,114 @@ containers.post('/:id/stop', async (c) => {
   }
 });
 
-// Reconfigure container (recreates with new ports/volumes)
+// Restart container
+containers.post('/:id/restart', zValidator('query', StopContainerQuerySchema), async (c) => {
+  const id = c.req.param('id');
+  const { timeout } = c.req.valid('query');
+
+  try {
+    await dockerService.restartContainer(id, timeout);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Pause container (freezes its processes until unpaused)
+containers.post('/:id/pause', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    await dockerService.pauseContainer(id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Unpause container
+containers.post('/:id/unpause', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    await dockerService.unpauseContainer(id);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Send a signal to the container's main process
+containers.post('/:id/kill', zValidator('query', KillContainerQuerySchema), async (c) => {
+  const id = c.req.param('id');
+  const { signal } = c.req.valid('query');
+
+  try {
+    await dockerService.killContainer(id, signal);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Stream container logs as SSE (stdout/stderr events, then "end")
+containers.get('/:id/logs', zValidator('query', ContainerLogsQuerySchema), async (c) => {
+  const id = c.req.param('id');
+  const options = c.req.valid('query');
+
+  const container = await dockerService.getContainer(id);
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  return sseResponse(async (writer) => {
+    const abort = new AbortController();
+    writer.onClose(() => abort.abort());
+    if (options.follow) {
+      startHeartbeat(writer);
+    }
+
+    await dockerService.streamContainerLogs(id, options, (line) => {
+      writer.send(line.stream, { text: line.text, timestamp: line.timestamp });
+    }, abort.signal);
+
+    writer.send('end', 'Log stream ended');
+    writer.close();
+  });
+});
+
+// Stream resource usage as SSE ("stats" events about once a second, then "end")
+containers.get('/:id/stats', async (c) => {
+  const id = c.req.param('id');
+
+  const container = await dockerService.getContainer(id);
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  return sseResponse(async (writer) => {
+    const abort = new AbortController();
+    writer.onClose(() => abort.abort());
+    startHeartbeat(writer);
+
+    await dockerService.streamContainerStats(id, (stats) => {
+      writer.send('stats', { ...stats, name: stats.name || container.name });
+    }, abort.signal);
+
+    writer.send('end', 'Stats stream ended');
+    writer.close();
+  });
+});
+
+// Reconfigure container (snapshots its filesystem, then recreates it with
+// new ports/volumes/limits; the previous container is restored on failure)
 containers.post('/:id/reconfigure', zValidator('json', ReconfigureContainerSchema), async (c) => {
   const id = c.req.param('id');
-  const { volumes, ports } = c.req.valid('json');
+  const { volumes, ports, resources: requestedResources } = c.req.valid('json');
 
   try {
     // Get current container info
@@ -115,34 +443,125 @@ containers.post('/:id/reconfigure', zValidator('json', ReconfigureContainerSchem
       return c.json({ error: 'Container not found' }, 404);
     }
 
-    const { name, image } = container;
-
-    // Stop container if running
-    if (container.state === 'running') {
-      await dockerService.stopContainer(id);
+    // Validate limits before touching the existing container
+    let resources;
+    try {
+      resources = await resolveResourceLimits(requestedResources ?? container.resources, container.resources ?? {});
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid resource limits';
+      return c.json({ error: message }, 400);
     }
 
-    // Remove the container
-    await dockerService.removeContainer(id);
+    const newContainerInfo = await reconfigureContainer(container, { volumes, ports, resources });
+    return c.json(newContainerInfo);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
 
-    // Find new SSH port
-    const sshPort = await findAvailableSshPort();
+// Clone a container into N copies (queued as builds, returns immediately)
+containers.post('/:id/clone', zValidator('json', CloneContainerSchema), async (c) => {
+  const body = c.req.valid('json');
 
-    // Create new container with same name/image but new config
-    const newContainer = await dockerService.createContainer({
-      name,
-      image,
-      sshPort,
-      volumes,
-      ports,
-    });
+  const source = await dockerService.getContainer(c.req.param('id'));
+  if (!source) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
 
-    // Start the new container
-    await newContainer.start();
+  let resources;
+  try {
+    resources = await resolveResourceLimits(source.resources);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid resource limits';
+    return c.json({ error: message }, 400);
+  }
 
-    // Get updated container info
-    const newContainerInfo = await dockerService.getContainer(newContainer.id);
-    return c.json(newContainerInfo);
+  try {
+    const clones = await cloneContainer(source, { ...body, resources });
+    return c.json({
+      builds: clones.map((clone) => ({
+        ...clone,
+        queuePosition: buildScheduler.getQueuePosition(clone.buildId),
+      })),
+      message: `${clones.length} clone${clones.length === 1 ? '' : 's'} queued`,
+    }, 202);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// List a container's snapshots, newest first
+containers.get('/:id/snapshots', async (c) => {
+  const container = await dockerService.getContainer(c.req.param('id'));
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  return c.json(await snapshots.listSnapshots(container.name));
+});
+
+// Commit the container (and optionally its volumes) to a snapshot
+containers.post('/:id/snapshots', zValidator('json', CreateSnapshotSchema), async (c) => {
+  const { label, includeVolumes } = c.req.valid('json');
+
+  const container = await dockerService.getContainer(c.req.param('id'));
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  try {
+    const snapshot = await snapshots.createSnapshot(container, { label, includeVolumes });
+    return c.json(snapshot, 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Recreate the container from a snapshot with the same name, ports and volumes
+containers.post('/:id/snapshots/:snapshotId/restore', zValidator('json', RestoreSnapshotSchema), async (c) => {
+  const { restoreVolumes } = c.req.valid('json');
+
+  const container = await dockerService.getContainer(c.req.param('id'));
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  const snapshot = await snapshots.getSnapshot(container.name, c.req.param('snapshotId'));
+  if (!snapshot) {
+    return c.json({ error: 'Snapshot not found' }, 404);
+  }
+
+  try {
+    const restored = await restoreContainerSnapshot(container, snapshot, restoreVolumes);
+    return c.json(restored);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+// Delete a snapshot image and its volume archives
+containers.delete('/:id/snapshots/:snapshotId', async (c) => {
+  const container = await dockerService.getContainer(c.req.param('id'));
+  if (!container) {
+    return c.json({ error: 'Container not found' }, 404);
+  }
+
+  const snapshot = await snapshots.getSnapshot(container.name, c.req.param('snapshotId'));
+  if (!snapshot) {
+    return c.json({ error: 'Snapshot not found' }, 404);
+  }
+
+  if (snapshot.image === container.image) {
+    return c.json({ error: 'The container is currently running from this snapshot' }, 409);
+  }
+
+  try {
+    await snapshots.deleteSnapshot(snapshot);
+    return c.json({ success: true });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return c.json({ error: message }, 500);
@@ -154,7 +573,11 @@ containers.delete('/:id', async (c) => {
   const id = c.req.param('id');
 
   try {
-    await dockerService.removeContainer(id);
+    const container = await dockerService.getContainer(id);
+    if (!container) {
+      return c.json({ error: 'Container not found' }, 404);
+    }
+    await sshKeys.removeContainerAndKey(container);
     return c.json({ success: true });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -162,13 +585,25 @@ containers.delete('/:id', async (c) => {
   }
 });
 
-// Get SSH private key (single app-wide key for all containers)
+// Get SSH private key: the container's own key in per-container mode,
+// otherwise the app-wide key
 containers.get('/:id/ssh-key', async (c) => {
+  const id = c.req.param('id');
+
   try {
-    const privateKey = await containerBuilder.getPrivateKey();
+    const container = await dockerService.getContainer(id);
+    if (!container) {
+      return c.json({ error: 'Container not found' }, 404);
+    }
+
+    const perContainer = container.sshKeyMode === 'container';
+    const privateKey = perContainer
+      ? await sshKeys.getContainerPrivateKey(container.name)
+      : await sshKeys.getPrivateKey();
+    const filename = perContainer ? `${container.name}.pem` : 'acm.pem';
 
     c.header('Content-Type', 'application/x-pem-file');
-    c.header('Content-Disposition', 'attachment; filename="acm.pem"');
+    c.header('Content-Disposition', `attachment; filename="${filename}"`);
 
     return c.body(privateKey);
   } catch (error) {
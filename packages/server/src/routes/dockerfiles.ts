@@ -6,7 +6,7 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { SaveDockerfileSchema } from '../types/index.js';
 import * as dockerService from '../services/docker.js';
-import { getPublicKey } from '../services/container-builder.js';
+import { getPublicKey } from '../services/ssh-keys.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, '..', '..', '..', '..');
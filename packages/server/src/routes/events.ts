@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+import * as events from '../services/events.js';
+import { sseResponse, startHeartbeat } from '../utils/sse.js';
+
+const eventRoutes = new Hono();
+
+// Stream container, image and build events as SSE.
+// Browsers resend the last seen id in Last-Event-ID when reconnecting;
+// missed events are replayed from history, or a "reset" is sent if they're gone.
+eventRoutes.get('/', (c) => {
+  const lastEventId = c.req.header('Last-Event-ID');
+
+  return sseResponse((writer) => {
+    writer.send('connected', { type: 'connected' });
+
+    if (lastEventId !== undefined) {
+      const missed = events.getEventsSince(parseInt(lastEventId, 10) || 0);
+      if (missed === null) {
+        writer.send('reset', { type: 'reset' });
+      } else {
+        for (const e of missed) {
+          writer.send(e.event.type, { ...e.event, time: e.time }, e.id);
+        }
+      }
+    }
+
+    const unsubscribe = events.subscribe((e) => {
+      writer.send(e.event.type, { ...e.event, time: e.time }, e.id);
+    });
+    writer.onClose(unsubscribe);
+
+    startHeartbeat(writer);
+  });
+});
+
+export default eventRoutes;
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import * as dockerService from '../services/docker.js';
+import * as baseImages from '../services/base-images.js';
 import { PullImageSchema, BuildImageSchema } from '../types/index.js';
 
 const images = new Hono();
@@ -37,6 +38,17 @@ images.post('/build', zValidator('json', BuildImageSchema), async (c) => {
   }
 });
 
+// Remove shared SSH-ready base images no container uses any more
+images.post('/prune-base', async (c) => {
+  try {
+    const removed = await baseImages.pruneUnusedBaseImages();
+    return c.json({ removed });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
 // Delete image
 images.delete('/:id', async (c) => {
   const id = c.req.param('id');
@@ -0,0 +1,21 @@
+import { Hono } from 'hono';
+import { renderSshConfig } from '../services/ssh-config.js';
+
+const sshConfig = new Hono();
+
+// ssh_config with a "Host acm-<name>" block per container
+sshConfig.get('/', async (c) => {
+  try {
+    const content = await renderSshConfig();
+    c.header('Content-Type', 'text/plain; charset=utf-8');
+    if (c.req.query('download') !== undefined) {
+      c.header('Content-Disposition', 'attachment; filename="acm.config"');
+    }
+    return c.body(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+export default sshConfig;
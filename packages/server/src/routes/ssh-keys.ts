@@ -0,0 +1,56 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import * as authorizedKeys from '../services/authorized-keys.js';
+import { listContainersUsingKey, syncContainersUsingKey } from '../services/key-rotation.js';
+import { AddSshKeySchema, SshKeyNameSchema } from '../types/index.js';
+
+const sshKeys = new Hono();
+
+// List registered public keys
+sshKeys.get('/', async (c) => {
+  return c.json(await authorizedKeys.listKeys());
+});
+
+// Register a public key under a name
+sshKeys.post('/', zValidator('json', AddSshKeySchema), async (c) => {
+  const { name, publicKey } = c.req.valid('json');
+
+  if (await authorizedKeys.getKey(name)) {
+    return c.json({ error: `A key named ${name} already exists` }, 409);
+  }
+  // Containers name the keys they trust in an immutable label, so a new key
+  // under a deleted key's name would be trusted by them too
+  const users = await listContainersUsingKey(name);
+  if (users.length > 0) {
+    return c.json({
+      error: `Containers still list a deleted key named ${name} (${users.map((u) => u.name).join(', ')}); choose another name`,
+    }, 409);
+  }
+
+  try {
+    return c.json(await authorizedKeys.addKey(name, publicKey), 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 400);
+  }
+});
+
+// Delete a key; running containers that trusted it lose access right away
+sshKeys.delete('/:name', async (c) => {
+  const name = c.req.param('name');
+
+  if (!SshKeyNameSchema.safeParse(name).success || !(await authorizedKeys.getKey(name))) {
+    return c.json({ error: 'Key not found' }, 404);
+  }
+
+  try {
+    await authorizedKeys.removeKey(name);
+    await syncContainersUsingKey(name);
+    return c.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: message }, 500);
+  }
+});
+
+export default sshKeys;
@@ -0,0 +1,20 @@
+import { Hono } from 'hono';
+import * as stats from '../services/stats.js';
+import { sseResponse, startHeartbeat } from '../utils/sse.js';
+
+const statsRoutes = new Hono();
+
+// Stream aggregate resource usage for all running containers as SSE
+// ("stats" events every couple of seconds with per-container samples and totals)
+statsRoutes.get('/', () => {
+  return sseResponse((writer) => {
+    const unsubscribe = stats.subscribeToStats((snapshot) => {
+      writer.send('stats', snapshot);
+    });
+    writer.onClose(unsubscribe);
+
+    startHeartbeat(writer);
+  });
+});
+
+export default statsRoutes;
@@ -0,0 +1,101 @@
+import { Hono } from 'hono';
+import type { NodeWebSocket } from '@hono/node-ws';
+import * as dockerService from '../services/docker.js';
+import * as reaper from '../services/reaper.js';
+import type { ShellSession } from '../services/docker.js';
+import { isAllowedOrigin } from '../utils/origin.js';
+
+// Terminals always open as the unprivileged SSH user
+const SHELL_USER = 'dev';
+
+// Messages from the browser; terminal output goes back as binary frames,
+// control messages (exit, error) as JSON text frames
+type TerminalClientMessage =
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+// WebSocket routes need the upgrade helper bound to the root app
+export function createTerminalRoutes(upgradeWebSocket: NodeWebSocket['upgradeWebSocket']) {
+  const terminal = new Hono();
+
+  // CORS doesn't cover WebSockets, so any page could otherwise open a shell
+  terminal.get('/:id/terminal', async (c, next) => {
+    if (!isAllowedOrigin(c.req.header('Origin'))) {
+      return c.json({ error: 'Origin not allowed' }, 403);
+    }
+    await next();
+  });
+
+  // Interactive shell inside the container via docker exec
+  terminal.get('/:id/terminal', upgradeWebSocket((c) => {
+    const id = c.req.param('id');
+    const cols = parseInt(c.req.query('cols') || '', 10) || 80;
+    const rows = parseInt(c.req.query('rows') || '', 10) || 24;
+
+    let session: ShellSession | null = null;
+    let closed = false;
+    // An open terminal keeps the container from being stopped as idle
+    let releaseHold = () => {};
+    // Input typed before the exec is ready
+    const pending: TerminalClientMessage[] = [];
+
+    const handleMessage = (message: TerminalClientMessage) => {
+      if (!session) {
+        pending.push(message);
+        return;
+      }
+      if (message.type === 'input') {
+        session.stream.write(message.data);
+      } else if (message.type === 'resize') {
+        session.resize(message.cols, message.rows).catch(() => {});
+      }
+    };
+
+    return {
+      onOpen: async (_event, ws) => {
+        releaseHold = reaper.holdActive(id);
+        try {
+          const newSession = await dockerService.createShellSession(id, { user: SHELL_USER, cols, rows });
+          if (closed) {
+            newSession.close();
+            return;
+          }
+          session = newSession;
+
+          session.stream.on('data', (chunk: Buffer) => {
+            ws.send(new Uint8Array(chunk));
+          });
+          session.stream.on('end', async () => {
+            if (closed) return;
+            const code = await newSession.exitCode().catch(() => null);
+            ws.send(JSON.stringify({ type: 'exit', code }));
+            ws.close(1000, 'Shell exited');
+          });
+
+          for (const message of pending.splice(0)) {
+            handleMessage(message);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to start shell';
+          ws.send(JSON.stringify({ type: 'error', message }));
+          ws.close(1011, 'Failed to start shell');
+        }
+      },
+      onMessage: (event) => {
+        if (typeof event.data !== 'string') return;
+        try {
+          handleMessage(JSON.parse(event.data) as TerminalClientMessage);
+        } catch {
+          // Ignore malformed messages
+        }
+      },
+      onClose: () => {
+        closed = true;
+        session?.close();
+        releaseHold();
+      },
+    };
+  }));
+
+  return terminal;
+}
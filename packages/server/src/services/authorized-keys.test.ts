@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const config = { dataDirectory: '' };
+vi.mock('./config.js', () => ({ getConfig: async () => config }));
+
+const { toKeyLabels, fromKeyLabels, getPublicKeys, findMissingKeys } = await import('./authorized-keys.js');
+
+describe('toKeyLabels', () => {
+  it('lists each key name once, in order', () => {
+    expect(toKeyLabels({ authorizedKeys: ['alice', 'bob', 'alice'] })).toEqual({ 'acm.authorized-keys': 'alice,bob' });
+  });
+
+  it('marks containers that trust only registered keys', () => {
+    expect(toKeyLabels({ authorizedKeys: ['alice'], includeAppKey: false })).toEqual({
+      'acm.authorized-keys': 'alice',
+      'acm.app-key': 'false',
+    });
+  });
+
+  it('adds nothing for the defaults', () => {
+    expect(toKeyLabels({})).toEqual({});
+    expect(toKeyLabels({ authorizedKeys: [], includeAppKey: true })).toEqual({});
+  });
+});
+
+describe('fromKeyLabels', () => {
+  it('reads back what toKeyLabels wrote', () => {
+    const request = { authorizedKeys: ['alice', 'bob'], includeAppKey: false };
+    expect(fromKeyLabels(toKeyLabels(request))).toEqual(request);
+  });
+
+  it('trusts the app key and no registered keys without labels', () => {
+    expect(fromKeyLabels()).toEqual({ authorizedKeys: [], includeAppKey: true });
+    expect(fromKeyLabels({ 'acm.authorized-keys': '' })).toEqual({ authorizedKeys: [], includeAppKey: true });
+  });
+});
+
+describe('registry lookups', () => {
+  beforeAll(async () => {
+    config.dataDirectory = await mkdtemp(join(tmpdir(), 'acm-keys-test-'));
+    await mkdir(join(config.dataDirectory, 'authorized-keys'));
+    await writeFile(join(config.dataDirectory, 'authorized-keys', 'alice.pub'), 'ssh-ed25519 AAAA alice@laptop\n');
+  });
+
+  afterAll(async () => {
+    await rm(config.dataDirectory, { recursive: true, force: true });
+  });
+
+  it('returns the keys still registered and skips deleted ones', async () => {
+    expect(await getPublicKeys(['alice', 'bob'])).toEqual(['ssh-ed25519 AAAA alice@laptop']);
+  });
+
+  it('reports names missing from the registry', async () => {
+    expect(await findMissingKeys(['alice', 'bob'])).toEqual(['bob']);
+  });
+});
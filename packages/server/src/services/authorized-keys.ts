@@ -0,0 +1,131 @@
+// Registry of named public keys (one per teammate) under
+// <dataDirectory>/authorized-keys. Containers list the names they trust in a
+// label; the keys themselves are looked up whenever a container starts, so
+// deleting a key from the registry revokes it everywhere.
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdir, readdir, readFile, writeFile, rm, stat, mkdtemp } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getConfig } from './config.js';
+import type { CreateContainerRequest, RegisteredSshKey } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const AUTHORIZED_KEYS_LABEL = 'acm.authorized-keys'; // Comma-separated registry names
+const APP_KEY_LABEL = 'acm.app-key'; // "false" when only registry keys are trusted
+
+export function toKeyLabels(request: Pick<CreateContainerRequest, 'authorizedKeys' | 'includeAppKey'>): Record<string, string> {
+  const labels: Record<string, string> = {};
+  const names = [...new Set(request.authorizedKeys || [])];
+  if (names.length > 0) {
+    labels[AUTHORIZED_KEYS_LABEL] = names.join(',');
+  }
+  if (request.includeAppKey === false) {
+    labels[APP_KEY_LABEL] = 'false';
+  }
+  return labels;
+}
+
+export function fromKeyLabels(labels: Record<string, string> = {}): { authorizedKeys: string[]; includeAppKey: boolean } {
+  return {
+    authorizedKeys: (labels[AUTHORIZED_KEYS_LABEL] || '').split(',').filter(Boolean),
+    includeAppKey: labels[APP_KEY_LABEL] !== 'false',
+  };
+}
+
+async function getKeysDir(): Promise<string> {
+  const config = await getConfig();
+  return join(config.dataDirectory, 'authorized-keys');
+}
+
+export async function listKeys(): Promise<RegisteredSshKey[]> {
+  const dir = await getKeysDir();
+  const files = await readdir(dir).catch(() => [] as string[]);
+
+  const keys: RegisteredSshKey[] = [];
+  for (const file of files.filter((f) => f.endsWith('.pub')).sort()) {
+    const key = await getKey(file.slice(0, -'.pub'.length));
+    if (key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export async function getKey(name: string): Promise<RegisteredSshKey | null> {
+  const path = join(await getKeysDir(), `${name}.pub`);
+  try {
+    const [publicKey, info] = await Promise.all([readFile(path, 'utf-8'), stat(path)]);
+    const { fingerprint, type } = await inspectPublicKey(publicKey.trim());
+    return { name, publicKey: publicKey.trim(), fingerprint, type, addedAt: info.mtime.toISOString() };
+  } catch {
+    return null;
+  }
+}
+
+// Validates the key with ssh-keygen before storing it
+export async function addKey(name: string, publicKey: string): Promise<RegisteredSshKey> {
+  const key = publicKey.trim();
+  if (key.includes('\n')) {
+    throw new Error('Expected a single public key');
+  }
+  const { fingerprint, type } = await inspectPublicKey(key);
+
+  const dir = await getKeysDir();
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${name}.pub`), `${key}\n`, { flag: 'wx' });
+
+  return { name, publicKey: key, fingerprint, type, addedAt: new Date().toISOString() };
+}
+
+export async function removeKey(name: string): Promise<void> {
+  await rm(join(await getKeysDir(), `${name}.pub`));
+}
+
+// Public keys for the given names; names no longer in the registry are skipped
+export async function getPublicKeys(names: string[]): Promise<string[]> {
+  const keys: string[] = [];
+  for (const name of names) {
+    const key = await readPublicKey(name);
+    if (key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+// Names that aren't in the registry
+export async function findMissingKeys(names: string[]): Promise<string[]> {
+  const missing: string[] = [];
+  for (const name of names) {
+    if (!(await readPublicKey(name))) {
+      missing.push(name);
+    }
+  }
+  return missing;
+}
+
+async function readPublicKey(name: string): Promise<string | null> {
+  try {
+    return (await readFile(join(await getKeysDir(), `${name}.pub`), 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+async function inspectPublicKey(publicKey: string): Promise<{ fingerprint: string; type: string }> {
+  const dir = await mkdtemp(join(tmpdir(), 'acm-key-'));
+  try {
+    const path = join(dir, 'key.pub');
+    await writeFile(path, `${publicKey}\n`);
+    const { stdout } = await execFileAsync('ssh-keygen', ['-l', '-E', 'sha256', '-f', path]);
+    // "<bits> SHA256:<hash> <comment> (<TYPE>)"
+    return { fingerprint: stdout.trim().split(/\s+/)[1], type: publicKey.split(/\s+/)[0] };
+  } catch {
+    throw new Error('Not a valid SSH public key');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
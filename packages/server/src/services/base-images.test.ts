@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const images = new Map<string, string>();
+let finishBuild: () => void = () => {};
+
+vi.mock('./docker.js', () => ({
+  BASE_IMAGE_LABEL: 'acm.base-image',
+  getImageId: vi.fn(async (name: string) => images.get(name) ?? null),
+  pullImage: vi.fn(async () => {}),
+  buildImageWithLogs: vi.fn(
+    (_dockerfile: string, tag: string) =>
+      new Promise<void>((resolve) => {
+        finishBuild = () => {
+          images.set(tag, `sha256:${tag}`);
+          resolve();
+        };
+      })
+  ),
+}));
+
+const dockerService = await import('./docker.js');
+const baseImages = await import('./base-images.js');
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  images.clear();
+  images.set('ubuntu:24.04', 'sha256:ubuntu');
+  vi.mocked(dockerService.buildImageWithLogs).mockClear();
+});
+
+describe('acquireSshBaseImage', () => {
+  it('shares one build between concurrent requests for the same image', async () => {
+    const first = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 AAAA', () => {});
+    const second = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 AAAA', () => {});
+    await settle();
+    finishBuild();
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(a).toBe(b);
+    expect(a).toMatch(/^acm-base-[0-9a-f]{12}:latest$/);
+    expect(dockerService.buildImageWithLogs).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses an image that was already built', async () => {
+    const tag = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 AAAA', () => {});
+    await settle();
+    finishBuild();
+    await tag;
+
+    await baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 AAAA', () => {});
+    expect(dockerService.buildImageWithLogs).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds separately for a different key', async () => {
+    const first = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 AAAA', () => {});
+    await settle();
+    finishBuild();
+    const second = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 BBBB', () => {});
+    await settle();
+    finishBuild();
+
+    expect(await first).not.toBe(await second);
+    expect(dockerService.buildImageWithLogs).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a shared build going until every waiter cancels', async () => {
+    const abortA = new AbortController();
+    const abortB = new AbortController();
+    const a = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 CCCC', () => {}, abortA.signal);
+    const b = baseImages.acquireSshBaseImage('ubuntu:24.04', 'ssh-ed25519 CCCC', () => {}, abortB.signal);
+    await settle();
+
+    const buildSignal = vi.mocked(dockerService.buildImageWithLogs).mock.calls[0][3]!;
+    abortA.abort();
+    await expect(a).rejects.toThrow('Build cancelled');
+    expect(buildSignal.aborted).toBe(false);
+
+    abortB.abort();
+    await expect(b).rejects.toThrow('Build cancelled');
+    expect(buildSignal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+// Shared SSH-ready images for containers created from a plain base image.
+// Images are content-addressed (acm-base-<hash>) from the base image digest
+// and the public key, so every container from the same base reuses one build.
+
+import { createHash } from 'crypto';
+import * as dockerService from './docker.js';
+
+interface SharedBuild {
+  promise: Promise<void>;
+  abort: AbortController;
+  listeners: Set<(message: string) => void>;
+  waiters: number;
+}
+
+// In-flight builds by tag; concurrent requests for the same tag attach to
+// the existing build instead of starting another
+const sharedBuilds = new Map<string, SharedBuild>();
+
+// References held by container builds that have resolved a base image but
+// not yet created their container; pruning skips these tags
+const pendingRefs = new Map<string, number>();
+
+// Resolve (building if needed) the SSH-ready image for a base image and
+// return its tag. The caller holds a reference until releaseBaseImage.
+export async function acquireSshBaseImage(
+  baseImage: string,
+  publicKey: string,
+  onLog: (message: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  let digest = await dockerService.getImageId(baseImage);
+  if (!digest) {
+    onLog(`Pulling ${baseImage}\n`);
+    await dockerService.pullImage(baseImage);
+    digest = await dockerService.getImageId(baseImage);
+    if (!digest) {
+      throw new Error(`Base image ${baseImage} not found after pull`);
+    }
+  }
+
+  const tag = baseImageTag(digest, publicKey);
+  pendingRefs.set(tag, (pendingRefs.get(tag) || 0) + 1);
+
+  try {
+    await ensureImage(createSshDockerfile(baseImage, publicKey), tag, baseImage, onLog, signal);
+  } catch (error) {
+    releaseBaseImage(tag);
+    throw error;
+  }
+  return tag;
+}
+
+export function releaseBaseImage(tag: string): void {
+  const count = (pendingRefs.get(tag) || 0) - 1;
+  if (count > 0) {
+    pendingRefs.set(tag, count);
+  } else {
+    pendingRefs.delete(tag);
+  }
+}
+
+// Remove shared base images no container uses any more; returns removed tags
+export async function pruneUnusedBaseImages(): Promise<string[]> {
+  const [images, usage] = await Promise.all([
+    dockerService.listImagesByLabel(dockerService.BASE_IMAGE_LABEL),
+    dockerService.getImageUsage(),
+  ]);
+
+  const removed: string[] = [];
+  for (const image of images) {
+    const tag = image.repoTags[0] || image.id;
+    const inUse = (usage.get(image.id) || 0) > 0 || image.repoTags.some((t) => pendingRefs.has(t) || sharedBuilds.has(t));
+    if (inUse) continue;
+
+    try {
+      await dockerService.removeImage(image.id);
+      removed.push(tag);
+    } catch (error) {
+      // Still referenced, e.g. by a snapshot layered on top of it
+      console.warn(`Failed to remove base image ${tag}:`, error);
+    }
+  }
+  return removed;
+}
+
+// Hashing the Dockerfile generated for the digest covers the base image,
+// the public key and the template, so changing any of them yields a new tag
+function baseImageTag(digest: string, publicKey: string): string {
+  const hash = createHash('sha256').update(createSshDockerfile(digest, publicKey)).digest('hex').substring(0, 12);
+  return `acm-base-${hash}:latest`;
+}
+
+async function ensureImage(
+  dockerfile: string,
+  tag: string,
+  baseImage: string,
+  onLog: (message: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!sharedBuilds.has(tag) && (await dockerService.getImageId(tag))) {
+    onLog(`Reusing existing image ${tag}\n`);
+    return;
+  }
+
+  // Looked up again: another request may have started the build meanwhile
+  let shared = sharedBuilds.get(tag);
+  if (shared) {
+    onLog(`Waiting for an identical build of ${tag} already in progress\n`);
+  } else {
+    const abort = new AbortController();
+    const listeners = new Set<(message: string) => void>();
+    const promise = dockerService
+      .buildImageWithLogs(
+        dockerfile,
+        tag,
+        (message) => listeners.forEach((l) => l(message)),
+        abort.signal,
+        { [dockerService.BASE_IMAGE_LABEL]: baseImage }
+      )
+      .finally(() => sharedBuilds.delete(tag));
+    shared = { promise, abort, listeners, waiters: 0 };
+    sharedBuilds.set(tag, shared);
+  }
+  const build = shared;
+  build.listeners.add(onLog);
+  build.waiters++;
+
+  // The shared build is only aborted once every waiting request has cancelled
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      build.listeners.delete(onLog);
+      if (--build.waiters === 0) {
+        build.abort.abort();
+      }
+      reject(new Error('Build cancelled'));
+    };
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    await Promise.race([build.promise, cancelled]);
+  } finally {
+    if (!signal?.aborted) {
+      build.listeners.delete(onLog);
+      build.waiters--;
+    }
+    signal?.removeEventListener('abort', onAbort!);
+  }
+}
+
+// Generate a complete Dockerfile when the user only provides a base image
+export function createSshDockerfile(baseImage: string, publicKey: string): string {
+  return `FROM ${baseImage}
+
+# Install packages
+RUN apt-get update && apt-get install -y \\
+    openssh-server \\
+    sudo \\
+    curl \\
+    git \\
+    vim \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && mkdir -p /var/run/sshd
+
+# Create non-root user with sudo access
+RUN useradd -m -s /bin/bash dev \\
+    && echo 'dev ALL=(ALL) NOPASSWD:ALL' >> /etc/sudoers
+
+# Configure SSH for key-based auth
+RUN sed -i 's/#PubkeyAuthentication.*/PubkeyAuthentication yes/' /etc/ssh/sshd_config \\
+    && sed -i 's/#PasswordAuthentication.*/PasswordAuthentication no/' /etc/ssh/sshd_config
+
+# Setup SSH key
+RUN mkdir -p /home/dev/.ssh \\
+    && chmod 700 /home/dev/.ssh \\
+    && echo '${publicKey}' > /home/dev/.ssh/authorized_keys \\
+    && chmod 600 /home/dev/.ssh/authorized_keys \\
+    && chown -R dev:dev /home/dev/.ssh
+
+# Add ~/.local/bin to PATH for pip-installed tools
+RUN echo 'export PATH="$HOME/.local/bin:$PATH"' >> /home/dev/.bashrc
+
+# Set working directory
+RUN mkdir -p /home/dev/workspace && chown dev:dev /home/dev/workspace
+WORKDIR /home/dev/workspace
+
+EXPOSE 22
+CMD ["/usr/sbin/sshd", "-D"]
+`;
+}
@@ -0,0 +1,174 @@
+// Durable record of container builds, one JSON file per build under
+// <dataDirectory>/builds so history survives server restarts
+
+import { readdir, readFile, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { getConfig } from './config.js';
+import type { BuildStatus } from './build-tracker.js';
+import type { CreateContainerRequest } from '../types/index.js';
+
+const MAX_RECORDS = 1000; // Oldest records are pruned beyond this
+const LOG_TAIL_LINES = 200;
+
+export interface BuildRecord {
+  id: string;
+  name: string;
+  status: BuildStatus['status'];
+  startedAt: string;
+  dequeuedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  request?: CreateContainerRequest; // Env values are redacted
+  imageName?: string;
+  imageId?: string;
+  containerId?: string;
+  error?: string;
+  logTail?: string;
+}
+
+export interface BuildHistoryQuery {
+  status?: BuildStatus['status'];
+  name?: string;
+  limit: number;
+  offset: number;
+}
+
+async function getBuildsDir(): Promise<string> {
+  const config = await getConfig();
+  return join(config.dataDirectory, 'builds');
+}
+
+// Build IDs as build-tracker makes them; anything else never names a record
+const BUILD_ID_PATTERN = /^build-\d+-[a-z0-9]+$/;
+
+function isBuildId(id: string): boolean {
+  return BUILD_ID_PATTERN.test(id);
+}
+
+async function recordPath(id: string): Promise<string> {
+  return join(await getBuildsDir(), `${id}.json`);
+}
+
+// Writes for the same build are chained so a quick create/complete pair
+// can't interleave its read-modify-write
+const pendingWrites = new Map<string, Promise<void>>();
+
+function queueWrite(id: string, write: () => Promise<void>): Promise<void> {
+  const previous = pendingWrites.get(id) || Promise.resolve();
+  const next = previous.catch(() => {}).then(write);
+  pendingWrites.set(id, next);
+  next.finally(() => {
+    if (pendingWrites.get(id) === next) {
+      pendingWrites.delete(id);
+    }
+  }).catch(() => {});
+  return next;
+}
+
+export function saveBuildRecord(record: BuildRecord): Promise<void> {
+  return queueWrite(record.id, () => writeRecord(record));
+}
+
+async function writeRecord(record: BuildRecord): Promise<void> {
+  const dir = await getBuildsDir();
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${record.id}.json`), JSON.stringify(record, null, 2));
+}
+
+export function updateBuildRecord(id: string, updates: Partial<BuildRecord>): Promise<void> {
+  return queueWrite(id, async () => {
+    const existing = await getBuildRecord(id);
+    if (!existing) return;
+
+    const record = { ...existing, ...updates };
+    if (record.completedAt) {
+      record.durationMs = Date.parse(record.completedAt) - Date.parse(record.startedAt);
+    }
+    await writeRecord(record);
+  });
+}
+
+export async function getBuildRecord(id: string): Promise<BuildRecord | null> {
+  if (!isBuildId(id)) {
+    return null;
+  }
+  try {
+    const content = await readFile(await recordPath(id), 'utf-8');
+    return JSON.parse(content) as BuildRecord;
+  } catch {
+    return null;
+  }
+}
+
+async function readAllRecords(): Promise<BuildRecord[]> {
+  const dir = await getBuildsDir();
+  const files = await readdir(dir).catch(() => [] as string[]);
+
+  const records: BuildRecord[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      records.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as BuildRecord);
+    } catch {
+      // Skip unreadable records
+    }
+  }
+
+  // Newest first
+  return records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function listBuildRecords(query: BuildHistoryQuery): Promise<{ builds: BuildRecord[]; total: number }> {
+  let records = await readAllRecords();
+
+  if (query.status) {
+    records = records.filter((r) => r.status === query.status);
+  }
+  if (query.name) {
+    const needle = query.name.toLowerCase();
+    records = records.filter((r) => r.name.toLowerCase().includes(needle));
+  }
+
+  return {
+    builds: records.slice(query.offset, query.offset + query.limit),
+    total: records.length,
+  };
+}
+
+// Builds still marked as building were cut off by a server restart
+export async function markInterruptedBuilds(): Promise<void> {
+  const records = await readAllRecords();
+  const now = new Date().toISOString();
+
+  for (const record of records) {
+    if (record.status === 'queued' || record.status === 'building') {
+      await updateBuildRecord(record.id, {
+        status: 'failed',
+        completedAt: now,
+        error: 'Server restarted while the build was in progress',
+      });
+    }
+  }
+}
+
+export async function pruneBuildRecords(): Promise<void> {
+  const records = await readAllRecords();
+  for (const record of records.slice(MAX_RECORDS)) {
+    await rm(await recordPath(record.id), { force: true });
+  }
+}
+
+export function redactRequest(request: CreateContainerRequest): CreateContainerRequest {
+  if (!request.env) return request;
+  return {
+    ...request,
+    env: Object.fromEntries(Object.keys(request.env).map((key) => [key, '***'])),
+  };
+}
+
+export function formatLogTail(messages: string[]): string {
+  // Status lines from Docker come without a trailing newline
+  const text = messages.map((m) => (m.endsWith('\n') ? m : `${m}\n`)).join('');
+  const lines = text.trimEnd().split('\n');
+  return lines.slice(-LOG_TAIL_LINES).join('\n');
+}
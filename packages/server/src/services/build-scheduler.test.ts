@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const config = { maxConcurrentBuilds: 1 };
+vi.mock('./config.js', () => ({ getConfig: async () => config }));
+
+let scheduler: typeof import('./build-scheduler.js');
+
+// A job that records when it starts and runs until released
+function job(started: string[], id: string) {
+  let release!: () => void;
+  const finished = new Promise<void>((resolve) => (release = resolve));
+  return {
+    run: async () => {
+      started.push(id);
+      await finished;
+    },
+    release,
+  };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(async () => {
+  config.maxConcurrentBuilds = 1;
+  vi.resetModules();
+  scheduler = await import('./build-scheduler.js');
+});
+
+describe('enqueueBuild', () => {
+  it('runs higher priorities first and equal priorities in arrival order', async () => {
+    const started: string[] = [];
+    const blocker = job(started, 'blocker');
+    scheduler.enqueueBuild('blocker', 0, blocker.run);
+    await settle();
+
+    const jobs = { low: job(started, 'low'), first: job(started, 'first'), second: job(started, 'second') };
+    scheduler.enqueueBuild('low', 0, jobs.low.run);
+    scheduler.enqueueBuild('first', 5, jobs.first.run);
+    scheduler.enqueueBuild('second', 5, jobs.second.run);
+
+    expect(scheduler.getQueuePosition('first')).toBe(1);
+    expect(scheduler.getQueuePosition('second')).toBe(2);
+    expect(scheduler.getQueuePosition('low')).toBe(3);
+
+    blocker.release();
+    await settle();
+    jobs.first.release();
+    await settle();
+    jobs.second.release();
+    await settle();
+    jobs.low.release();
+    await settle();
+
+    expect(started).toEqual(['blocker', 'first', 'second', 'low']);
+    expect(scheduler.getRunningCount()).toBe(0);
+  });
+
+  it('runs up to maxConcurrentBuilds jobs at once', async () => {
+    config.maxConcurrentBuilds = 2;
+    const started: string[] = [];
+    const jobs = ['a', 'b', 'c'].map((id) => job(started, id));
+    jobs.forEach((j, i) => scheduler.enqueueBuild(`build-${i}`, 0, j.run));
+    await settle();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.getRunningCount()).toBe(2);
+    expect(scheduler.getQueueLength()).toBe(1);
+
+    jobs[0].release();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops a waiting job when its signal aborts', async () => {
+    const started: string[] = [];
+    const blocker = job(started, 'blocker');
+    scheduler.enqueueBuild('blocker', 0, blocker.run);
+    await settle();
+
+    const abort = new AbortController();
+    scheduler.enqueueBuild('cancelled', 0, job(started, 'cancelled').run, abort.signal);
+    abort.abort();
+
+    expect(scheduler.getQueuePosition('cancelled')).toBeUndefined();
+    blocker.release();
+    await settle();
+    expect(started).toEqual(['blocker']);
+  });
+
+  it('frees the slot of a job that throws', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const started: string[] = [];
+    scheduler.enqueueBuild('failing', 0, async () => {
+      throw new Error('boom');
+    });
+    const next = job(started, 'next');
+    scheduler.enqueueBuild('next', 0, next.run);
+    await settle();
+
+    expect(started).toEqual(['next']);
+    expect(error).toHaveBeenCalledWith('Build failing failed unexpectedly:', expect.any(Error));
+    error.mockRestore();
+  });
+});
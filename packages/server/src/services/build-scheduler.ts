@@ -0,0 +1,67 @@
+// Run container builds through a priority queue so a burst of create
+// requests doesn't overload the Docker daemon
+
+import { getConfig } from './config.js';
+
+interface QueuedJob {
+  id: string;
+  priority: number; // Higher runs first
+  seq: number; // FIFO among equal priorities
+  run: () => Promise<void>;
+}
+
+const queue: QueuedJob[] = [];
+let running = 0;
+let nextSeq = 0;
+
+// Queue a job; it starts once a slot is free. Aborting the signal while the
+// job is still waiting drops it from the queue.
+export function enqueueBuild(
+  id: string,
+  priority: number,
+  run: () => Promise<void>,
+  signal?: AbortSignal
+): void {
+  queue.push({ id, priority, seq: nextSeq++, run });
+  queue.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+
+  signal?.addEventListener('abort', () => removeFromQueue(id), { once: true });
+
+  pump();
+}
+
+// 1-based position among waiting jobs, or undefined if not queued
+export function getQueuePosition(id: string): number | undefined {
+  const index = queue.findIndex((job) => job.id === id);
+  return index === -1 ? undefined : index + 1;
+}
+
+export function getQueueLength(): number {
+  return queue.length;
+}
+
+export function getRunningCount(): number {
+  return running;
+}
+
+function removeFromQueue(id: string): void {
+  const index = queue.findIndex((job) => job.id === id);
+  if (index !== -1) {
+    queue.splice(index, 1);
+  }
+}
+
+async function pump(): Promise<void> {
+  const { maxConcurrentBuilds } = await getConfig();
+
+  while (running < maxConcurrentBuilds && queue.length > 0) {
+    const job = queue.shift()!;
+    running++;
+    job.run()
+      .catch((err) => console.error(`Build ${job.id} failed unexpectedly:`, err))
+      .finally(() => {
+        running--;
+        pump();
+      });
+  }
+}
@@ -1,62 +1,216 @@
 // Track container builds in progress
 
+import { EventEmitter } from 'events';
+import { publish } from './events.js';
+import * as buildHistory from './build-history.js';
+import { getQueuePosition } from './build-scheduler.js';
+import type { CreateContainerRequest } from '../types/index.js';
+
+const MAX_LOG_ENTRIES = 2000; // Per build; older entries are dropped
+
 export interface BuildStatus {
   id: string;
   name: string;
-  status: 'building' | 'completed' | 'failed';
-  startedAt: string;
+  status: 'queued' | 'building' | 'completed' | 'failed' | 'cancelled';
+  priority: number;
+  startedAt: string; // When the request was accepted
+  dequeuedAt?: string; // When the build left the queue and began running
+  queuePosition?: number; // 1-based, only while queued
   completedAt?: string;
   error?: string;
   containerId?: string;
 }
 
+export interface BuildLogEntry {
+  seq: number; // Monotonic per build, survives ring buffer truncation
+  message: string;
+}
+
 // In-memory store for active builds
 const builds = new Map<string, BuildStatus>();
 
-export function createBuild(name: string): BuildStatus {
+// Build output, kept apart from BuildStatus so status stays small
+const buildLogs = new Map<string, BuildLogEntry[]>();
+const nextLogSeq = new Map<string, number>();
+const logEmitter = new EventEmitter();
+logEmitter.setMaxListeners(0);
+
+// Aborted to cancel the build's Docker operations
+const abortControllers = new Map<string, AbortController>();
+
+// Mirror a build's state into the persistent history
+function persist(id: string, updates: Partial<buildHistory.BuildRecord>): void {
+  const logTail = updates.status && !isActiveStatus(updates.status)
+    ? buildHistory.formatLogTail(getBuildLogs(id).map((e) => e.message))
+    : undefined;
+
+  buildHistory.updateBuildRecord(id, logTail !== undefined ? { ...updates, logTail } : updates)
+    .catch((err) => console.error(`Failed to update build history for ${id}:`, err));
+}
+
+function isActiveStatus(status: BuildStatus['status']): boolean {
+  return status === 'queued' || status === 'building';
+}
+
+export function isBuildActive(build: BuildStatus): boolean {
+  return isActiveStatus(build.status);
+}
+
+// Builds start out queued; the scheduler calls startBuild when a slot frees up
+export function createBuild(name: string, request?: CreateContainerRequest, priority = 0): BuildStatus {
   const id = `build-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   const build: BuildStatus = {
     id,
     name,
-    status: 'building',
+    status: 'queued',
+    priority,
     startedAt: new Date().toISOString(),
   };
   builds.set(id, build);
+  buildLogs.set(id, []);
+  nextLogSeq.set(id, 1);
+  abortControllers.set(id, new AbortController());
+  buildHistory.saveBuildRecord({
+    id,
+    name,
+    status: 'queued',
+    startedAt: build.startedAt,
+    request: request ? buildHistory.redactRequest(request) : undefined,
+  }).catch((err) => console.error(`Failed to record build ${id}:`, err));
+  publish({ type: 'build', action: 'queued', build: { ...build } });
   return build;
 }
 
-export function completeBuild(id: string, containerId: string): void {
+export function startBuild(id: string): void {
+  const build = builds.get(id);
+  if (build && build.status === 'queued') {
+    build.status = 'building';
+    build.dequeuedAt = new Date().toISOString();
+    persist(id, { status: 'building', dequeuedAt: build.dequeuedAt });
+    publish({ type: 'build', action: 'building', build: { ...build } });
+  }
+}
+
+export function completeBuild(
+  id: string,
+  containerId: string,
+  image?: { name: string; id?: string }
+): void {
   const build = builds.get(id);
-  if (build) {
+  if (build && build.status === 'building') {
     build.status = 'completed';
     build.completedAt = new Date().toISOString();
     build.containerId = containerId;
+    persist(id, {
+      status: 'completed',
+      completedAt: build.completedAt,
+      containerId,
+      imageName: image?.name,
+      imageId: image?.id,
+    });
+    publish({ type: 'build', action: 'completed', build: { ...build } });
+    logEmitter.emit(id, null);
     // Remove after a short delay so frontend can see completion
-    setTimeout(() => builds.delete(id), 10000);
+    setTimeout(() => removeBuild(id), 10000);
   }
 }
 
 export function failBuild(id: string, error: string): void {
   const build = builds.get(id);
-  if (build) {
+  if (build && isBuildActive(build)) {
     build.status = 'failed';
     build.completedAt = new Date().toISOString();
     build.error = error;
+    // Docker build errors are already in the log
+    const lastEntry = buildLogs.get(id)?.at(-1);
+    if (lastEntry?.message !== `ERROR: ${error}`) {
+      appendBuildLog(id, `ERROR: ${error}`);
+    }
+    persist(id, { status: 'failed', completedAt: build.completedAt, error });
+    publish({ type: 'build', action: 'failed', build: { ...build } });
+    logEmitter.emit(id, null);
     // Keep failed builds longer so user can see the error
-    setTimeout(() => builds.delete(id), 60000);
+    setTimeout(() => removeBuild(id), 60000);
   }
 }
 
+// Abort a queued or running build. The scheduler drops queued builds; a
+// running builder cleans up whatever it had created.
+export function cancelBuild(id: string): boolean {
+  const build = builds.get(id);
+  if (!build || !isBuildActive(build)) {
+    return false;
+  }
+
+  build.status = 'cancelled';
+  build.completedAt = new Date().toISOString();
+  abortControllers.get(id)?.abort();
+  appendBuildLog(id, 'Build cancelled\n');
+  persist(id, { status: 'cancelled', completedAt: build.completedAt });
+  publish({ type: 'build', action: 'cancelled', build: { ...build } });
+  logEmitter.emit(id, null);
+  setTimeout(() => removeBuild(id), 10000);
+  return true;
+}
+
+export function getBuildSignal(id: string): AbortSignal | undefined {
+  return abortControllers.get(id)?.signal;
+}
+
+function removeBuild(id: string): void {
+  builds.delete(id);
+  buildLogs.delete(id);
+  nextLogSeq.delete(id);
+  abortControllers.delete(id);
+}
+
+export function appendBuildLog(id: string, message: string): void {
+  const logs = buildLogs.get(id);
+  if (!logs) return;
+
+  const seq = nextLogSeq.get(id) ?? 1;
+  nextLogSeq.set(id, seq + 1);
+
+  const entry = { seq, message };
+  logs.push(entry);
+  if (logs.length > MAX_LOG_ENTRIES) {
+    logs.shift();
+  }
+  logEmitter.emit(id, entry);
+}
+
+export function getBuildLogs(id: string, afterSeq = 0): BuildLogEntry[] {
+  return (buildLogs.get(id) || []).filter((e) => e.seq > afterSeq);
+}
+
+// Listen for new log entries; the listener gets null once the build finishes
+export function subscribeToBuildLogs(
+  id: string,
+  listener: (entry: BuildLogEntry | null) => void
+): () => void {
+  logEmitter.on(id, listener);
+  return () => {
+    logEmitter.off(id, listener);
+  };
+}
+
+function withQueuePosition(build: BuildStatus): BuildStatus {
+  return build.status === 'queued'
+    ? { ...build, queuePosition: getQueuePosition(build.id) }
+    : build;
+}
+
 export function getBuild(id: string): BuildStatus | undefined {
-  return builds.get(id);
+  const build = builds.get(id);
+  return build && withQueuePosition(build);
 }
 
 export function listBuilds(): BuildStatus[] {
-  return Array.from(builds.values());
+  return Array.from(builds.values()).map(withQueuePosition);
 }
 
 export function getActiveBuildByName(name: string): BuildStatus | undefined {
   return Array.from(builds.values()).find(
-    (b) => b.name === name && b.status === 'building'
+    (b) => b.name === name && isBuildActive(b)
   );
 }
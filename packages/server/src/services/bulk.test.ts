@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ContainerInfo } from '../types/index.js';
+
+function container(id: string, name: string, labels: Record<string, string> = {}, tags: string[] = []) {
+  return { id, name, labels, tags } as unknown as ContainerInfo;
+}
+
+const containers = [
+  container('abc123', 'agent-1', { team: 'red' }, ['project-x']),
+  container('abd456', 'agent-2', { team: 'blue' }, ['project-x', 'urgent']),
+  container('ffe789', 'web.app', { team: 'red' }),
+];
+
+vi.mock('./docker.js', () => ({
+  startContainer: vi.fn(async (id: string) => {
+    if (id === 'ffe789') throw new Error('port is already allocated');
+  }),
+}));
+vi.mock('./ssh-keys.js', () => ({ removeContainerAndKey: vi.fn() }));
+
+const { globToRegExp, resolveIds, runBulkAction, selectContainers } = await import('./bulk.js');
+const { ContainerSelectorSchema } = await import('../types/index.js');
+
+const names = (list: ContainerInfo[]) => list.map((c) => c.name);
+
+describe('globToRegExp', () => {
+  it('matches * and ? wildcards against the whole name', () => {
+    expect(globToRegExp('agent-*').test('agent-12')).toBe(true);
+    expect(globToRegExp('agent-?').test('agent-12')).toBe(false);
+    expect(globToRegExp('agent-?').test('agent-1')).toBe(true);
+    expect(globToRegExp('agent').test('my-agent-1')).toBe(false);
+  });
+
+  it('treats other characters literally', () => {
+    expect(globToRegExp('web.app').test('web.app')).toBe(true);
+    expect(globToRegExp('web.app').test('webxapp')).toBe(false);
+    expect(globToRegExp('a+(b)').test('a+(b)')).toBe(true);
+  });
+});
+
+describe('resolveIds', () => {
+  it('accepts full IDs and unique prefixes', () => {
+    expect(resolveIds(['abc123', 'ff'], containers)).toEqual({ ids: ['abc123', 'ffe789'], missing: [] });
+  });
+
+  it('reports IDs that match nothing', () => {
+    expect(resolveIds(['zzz', 'abc'], containers)).toEqual({ ids: ['abc123'], missing: ['zzz'] });
+  });
+
+  it('rejects a prefix shared by several containers', () => {
+    expect(() => resolveIds(['ab'], containers)).toThrow('Container ID prefix "ab" matches 2 containers');
+  });
+});
+
+describe('selectContainers', () => {
+  const select = (selector: Parameters<typeof selectContainers>[0]) =>
+    names(selectContainers(selector, containers).containers);
+
+  it('requires every criterion to match', () => {
+    expect(select({ name: 'agent-*', labels: { team: 'red' } })).toEqual(['agent-1']);
+    expect(select({ ids: ['abd', 'ffe'], name: 'agent-*' })).toEqual(['agent-2']);
+  });
+
+  it('matches containers with all of the given tags', () => {
+    expect(select({ tags: ['project-x'] })).toEqual(['agent-1', 'agent-2']);
+    expect(select({ tags: ['project-x', 'urgent'] })).toEqual(['agent-2']);
+  });
+
+  it('judges ID prefixes against every container, not just the label matches', () => {
+    expect(() => selectContainers({ ids: ['ab'], labels: { team: 'red' } }, containers)).toThrow('matches 2 containers');
+  });
+
+  it('keeps IDs that match nothing', () => {
+    expect(selectContainers({ ids: ['abc', 'gone'] }, containers).missing).toEqual(['gone']);
+  });
+});
+
+describe('runBulkAction', () => {
+  it('reports a result per container and per missing ID', async () => {
+    const selection = selectContainers({ ids: ['abc', 'ffe', 'gone'] }, containers);
+    expect(await runBulkAction({ action: 'start', selector: { ids: ['abc', 'ffe', 'gone'] } }, selection)).toEqual([
+      { id: 'abc123', name: 'agent-1', success: true },
+      { id: 'ffe789', name: 'web.app', success: false, error: 'port is already allocated' },
+      { id: 'gone', success: false, error: 'Container not found' },
+    ]);
+  });
+});
+
+describe('ContainerSelectorSchema', () => {
+  it('rejects selectors that would match every container', () => {
+    expect(ContainerSelectorSchema.safeParse({}).success).toBe(false);
+    expect(ContainerSelectorSchema.safeParse({ labels: {} }).success).toBe(false);
+    expect(ContainerSelectorSchema.safeParse({ ids: [] }).success).toBe(false);
+    expect(ContainerSelectorSchema.safeParse({ tags: [] }).success).toBe(false);
+  });
+
+  it('accepts any one criterion', () => {
+    expect(ContainerSelectorSchema.safeParse({ ids: ['abc'] }).success).toBe(true);
+    expect(ContainerSelectorSchema.safeParse({ name: '*' }).success).toBe(true);
+    expect(ContainerSelectorSchema.safeParse({ labels: { team: 'red' } }).success).toBe(true);
+    expect(ContainerSelectorSchema.safeParse({ tags: ['project-x'] }).success).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+// Apply one container action to many containers at once, a few at a time,
+// collecting a result per container instead of stopping at the first error
+
+import * as dockerService from './docker.js';
+import { removeContainerAndKey } from './ssh-keys.js';
+import type {
+  BulkActionRequest,
+  BulkActionResult,
+  ContainerInfo,
+  ContainerSelector,
+} from '../types/index.js';
+
+const BULK_CONCURRENCY = 4;
+
+export interface ContainerSelection {
+  containers: ContainerInfo[];
+  missing: string[]; // Requested IDs that matched no container
+}
+
+// Missing IDs are reported as failures after the selected containers
+export async function runBulkAction(
+  request: BulkActionRequest,
+  selection: ContainerSelection
+): Promise<BulkActionResult[]> {
+  const results = await mapWithConcurrency(selection.containers, BULK_CONCURRENCY, async (container) => {
+    try {
+      await applyAction(container, request);
+      return { id: container.id, name: container.name, success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { id: container.id, name: container.name, success: false, error: message };
+    }
+  });
+  return [...results, ...selection.missing.map((id) => ({ id, success: false, error: 'Container not found' }))];
+}
+
+// The containers a selector picks out of `containers` (every managed
+// container). Throws if an ID prefix is ambiguous.
+export function selectContainers(selector: ContainerSelector, containers: ContainerInfo[]): ContainerSelection {
+  let selected = containers;
+  let missing: string[] = [];
+
+  if (selector.ids) {
+    const resolved = resolveIds(selector.ids, containers);
+    const ids = new Set(resolved.ids);
+    selected = selected.filter((c) => ids.has(c.id));
+    missing = resolved.missing;
+  }
+  if (selector.labels) {
+    const labels = Object.entries(selector.labels);
+    selected = selected.filter((c) => labels.every(([key, value]) => c.labels[key] === value));
+  }
+  if (selector.name) {
+    const pattern = globToRegExp(selector.name);
+    selected = selected.filter((c) => pattern.test(c.name));
+  }
+  if (selector.tags) {
+    const tags = selector.tags;
+    selected = selected.filter((c) => tags.every((tag) => c.tags.includes(tag)));
+  }
+
+  return { containers: selected, missing };
+}
+
+// Full IDs or unique prefixes, as the Docker CLI accepts. A prefix shared by
+// several containers is an error rather than a match for all of them.
+export function resolveIds(
+  ids: string[],
+  containers: Pick<ContainerInfo, 'id'>[]
+): { ids: string[]; missing: string[] } {
+  const resolved: string[] = [];
+  const missing: string[] = [];
+  for (const id of ids) {
+    const matches = containers.filter((c) => c.id.startsWith(id));
+    if (matches.length > 1) {
+      throw new Error(`Container ID prefix "${id}" matches ${matches.length} containers`);
+    }
+    if (matches.length === 0) {
+      missing.push(id);
+    } else {
+      resolved.push(matches[0].id);
+    }
+  }
+  return { ids: resolved, missing };
+}
+
+function applyAction(container: ContainerInfo, request: BulkActionRequest): Promise<void> {
+  const id = container.id;
+  switch (request.action) {
+    case 'start':
+      return dockerService.startContainer(id);
+    case 'stop':
+      return dockerService.stopContainer(id, request.timeout);
+    case 'restart':
+      return dockerService.restartContainer(id, request.timeout);
+    case 'pause':
+      return dockerService.pauseContainer(id);
+    case 'unpause':
+      return dockerService.unpauseContainer(id);
+    case 'kill':
+      return dockerService.killContainer(id, request.signal || 'SIGKILL');
+    case 'remove':
+      return removeContainerAndKey(container);
+  }
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+// Like Promise.all over items.map(fn), with at most `limit` calls in flight;
+// results keep the input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,226 @@
+// Fork a container into several copies: the source is committed to a
+// snapshot once, then each clone is queued as a normal build with its own
+// name, SSH port and remapped host ports (picked when its build runs)
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as dockerService from './docker.js';
+import * as snapshots from './snapshots.js';
+import * as buildTracker from './build-tracker.js';
+import * as buildScheduler from './build-scheduler.js';
+import { renewLifecycleLabels } from './lifecycle.js';
+import { getConfig } from './config.js';
+import * as sshKeys from './ssh-keys.js';
+import { seedContainerKeys, syncContainerKeys } from './key-rotation.js';
+import { waitUntilReady } from './container-builder.js';
+import { findAvailableSshPort, findAvailableHostPort } from '../utils/port.js';
+import type { ContainerInfo, CreateContainerRequest, ResourceLimits } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface CloneOptions {
+  count: number;
+  namePrefix?: string; // Defaults to "<source>-clone"
+  copyVolumes?: boolean;
+  priority?: number;
+  resources?: ResourceLimits; // Already resolved against the configured limits
+}
+
+export async function cloneContainer(
+  source: ContainerInfo,
+  options: CloneOptions
+): Promise<Array<{ buildId: string; name: string }>> {
+  const { count, namePrefix = `${source.name}-clone`, copyVolumes = false, priority = 0, resources } = options;
+
+  const runtime = await dockerService.getContainerRuntimeConfig(source.id);
+  const names = await pickCloneNames(namePrefix, count);
+
+  const snapshot = await snapshots.createSnapshot(source, { reason: 'clone', label: `Clone source for ${namePrefix}` });
+
+  const clones: Array<{ buildId: string; name: string }> = [];
+
+  for (const name of names) {
+    const volumes = copyVolumes
+      ? source.volumes.map((v) => ({ name: `${v.name}-${name}`, mountPath: v.mountPath }))
+      : source.volumes;
+
+    const request: CreateContainerRequest = {
+      name,
+      image: snapshot.image,
+      volumes,
+      ports: source.ports,
+      env: runtime.env,
+      resources,
+      priority,
+    };
+
+    const build = buildTracker.createBuild(name, request, priority);
+    const signal = buildTracker.getBuildSignal(build.id);
+    const log = (message: string) => buildTracker.appendBuildLog(build.id, message);
+
+    buildScheduler.enqueueBuild(build.id, priority, async () => {
+      buildTracker.startBuild(build.id);
+      const copiedVolumes: string[] = [];
+      let containerId: string | null = null;
+      let allocated: ClonePorts | null = null;
+
+      try {
+        log(`Cloning ${source.name} from snapshot ${snapshot.id}\n`);
+
+        if (copyVolumes) {
+          for (const [i, volume] of source.volumes.entries()) {
+            log(`Copying volume ${volume.name} to ${volumes[i].name}\n`);
+            copiedVolumes.push(volumes[i].name);
+            await copyVolume(volume.name, volumes[i].name);
+            throwIfCancelled(signal);
+          }
+        }
+
+        // Ports are picked only now, when the container is about to bind
+        // them; anything picked while the clone sat in the queue could be
+        // taken by then. They stay reserved until the container has started.
+        allocated = await allocateClonePorts(source);
+        const { sshPort, ports } = allocated;
+
+        log(`Creating container ${name} (${sshPort ? `SSH port ${sshPort}` : 'SSH via gateway'})\n`);
+        const container = await dockerService.createContainer({
+          name,
+          image: snapshot.image,
+          sshPort,
+          volumes,
+          ports,
+          env: runtime.env,
+          resources,
+          labels: renewLifecycleLabels(runtime.labels),
+          restartPolicy: runtime.restartPolicy,
+        });
+        containerId = container.id;
+        throwIfCancelled(signal);
+
+        // The snapshot carries the source's key; a clone gets one of its own
+        if (source.sshKeyMode === 'container') {
+          log(`Generating SSH key for ${name}\n`);
+          await sshKeys.createContainerKey(name);
+        }
+        await seedContainerKeys(container.id);
+
+        log(`Starting container ${name}\n`);
+        try {
+          await container.start();
+        } finally {
+          releaseClonePorts(allocated);
+          allocated = null;
+        }
+        throwIfCancelled(signal);
+
+        await syncContainerKeys(container.id);
+        throwIfCancelled(signal);
+
+        await waitUntilReady(container.id, name, log, signal);
+        throwIfCancelled(signal);
+
+        buildTracker.completeBuild(build.id, container.id, { name: snapshot.image, id: snapshot.imageId });
+      } catch (error) {
+        if (allocated) {
+          releaseClonePorts(allocated);
+        }
+        await cleanupFailedClone(containerId, copiedVolumes);
+        await sshKeys.deleteContainerKey(name).catch(() => {});
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        buildTracker.failBuild(build.id, message);
+      }
+    }, signal);
+
+    clones.push({ buildId: build.id, name });
+  }
+
+  return clones;
+}
+
+// Ports handed to clones that haven't started yet. Clone jobs run
+// concurrently, and Docker only reports a container's ports once it's
+// running, so these are skipped until then.
+const reservedPorts = new Set<number>();
+let portAllocation: Promise<unknown> = Promise.resolve();
+
+interface ClonePorts {
+  sshPort: number | null;
+  ports: Array<{ container: number; host: number }>;
+}
+
+// A free SSH port (unless the gateway is on) and a free host port above each
+// of the source's port mappings. Allocations run one at a time so concurrent
+// jobs can't pick the same port.
+function allocateClonePorts(source: ContainerInfo): Promise<ClonePorts> {
+  const allocated = portAllocation.then(() => pickClonePorts(source));
+  portAllocation = allocated.catch(() => {});
+  return allocated;
+}
+
+async function pickClonePorts(source: ContainerInfo): Promise<ClonePorts> {
+  const picked: ClonePorts = { sshPort: null, ports: [] };
+  try {
+    if (!(await getConfig()).sshGateway) {
+      picked.sshPort = await findAvailableSshPort(reservedPorts);
+      reservedPorts.add(picked.sshPort);
+    }
+    for (const port of source.ports) {
+      const host = await findAvailableHostPort(port.host, reservedPorts);
+      reservedPorts.add(host);
+      picked.ports.push({ container: port.container, host });
+    }
+  } catch (error) {
+    releaseClonePorts(picked);
+    throw error;
+  }
+  return picked;
+}
+
+function releaseClonePorts({ sshPort, ports }: ClonePorts): void {
+  if (sshPort) reservedPorts.delete(sshPort);
+  for (const port of ports) {
+    reservedPorts.delete(port.host);
+  }
+}
+
+// Next free "<prefix>-<n>" names, skipping existing containers and active builds
+async function pickCloneNames(prefix: string, count: number): Promise<string[]> {
+  const containers = await dockerService.listContainers();
+  const taken = new Set([
+    ...containers.map((c) => c.name),
+    ...buildTracker.listBuilds().filter(buildTracker.isBuildActive).map((b) => b.name),
+  ]);
+
+  const names: string[] = [];
+  for (let i = 1; names.length < count; i++) {
+    const name = `${prefix}-${i}`;
+    if (!taken.has(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+async function copyVolume(from: string, to: string): Promise<void> {
+  await dockerService.createVolume(to);
+  const fromPath = await dockerService.getVolumePath(from);
+  const toPath = await dockerService.getVolumePath(to);
+  await execFileAsync('cp', ['-a', `${fromPath}/.`, toPath]);
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Build cancelled');
+  }
+}
+
+// Remove what a failed or cancelled clone left behind: its container and
+// the volumes copied for it
+async function cleanupFailedClone(containerId: string | null, volumes: string[]): Promise<void> {
+  if (containerId) {
+    await dockerService.removeContainer(containerId).catch(() => {});
+  }
+  for (const volume of volumes) {
+    await dockerService.removeVolume(volume).catch(() => {});
+  }
+}
@@ -1,6 +1,7 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import type { ResourceLimits } from '../types/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, '..', '..', '..', '..');
@@ -9,11 +10,33 @@ const CONFIG_FILE = join(PROJECT_ROOT, 'data', 'config.json');
 export interface AppConfig {
   sshKeysDisplayPath: string; // Path shown in SSH commands (e.g., ~/.ssh)
   dataDirectory: string; // Base directory for all data (volumes, ssh-keys, etc.)
+  maxConcurrentBuilds: number; // Container builds allowed to run at once; the rest queue
+  stopTimeout: number; // Seconds a stopping container gets before it's killed
+  sshKeyMode: 'shared' | 'container'; // Default for new containers: the app-wide key or one keypair each
+  writeSshConfig: boolean; // Keep <sshKeysDisplayPath>/acm.config up to date for ssh_config's Include
+  stableHostKeys: boolean; // Give each container name its own SSH host key, kept across rebuilds
+  readinessTimeout: number; // Seconds a started container gets to become ready before its build fails
+  healthCommand: string; // Run in the container to check readiness; empty to wait for the SSH banner
+  sshGateway: boolean; // Serve `ssh <name>@host -p <sshGatewayPort>`; new containers get no SSH host port
+  sshGatewayPort: number;
+  resourceDefaults: ResourceLimits; // Applied when a container doesn't set its own limits
+  resourceMaximums: ResourceLimits; // Upper bounds for requested limits
 }
 
 const DEFAULT_CONFIG: AppConfig = {
   sshKeysDisplayPath: '~/.ssh',
   dataDirectory: join(PROJECT_ROOT, 'data'),
+  maxConcurrentBuilds: 2,
+  stopTimeout: 10,
+  sshKeyMode: 'shared',
+  writeSshConfig: false,
+  stableHostKeys: false,
+  readinessTimeout: 60,
+  healthCommand: '',
+  sshGateway: false,
+  sshGatewayPort: 2200,
+  resourceDefaults: {},
+  resourceMaximums: {},
 };
 
 export function getProjectRoot(): string {
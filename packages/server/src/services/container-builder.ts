@@ -1,175 +1,193 @@
-import { execSync } from 'child_process';
-import { mkdir, readFile, rm, access } from 'fs/promises';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
 import * as dockerService from './docker.js';
+import * as baseImages from './base-images.js';
+import { toLifecycleLabels } from './lifecycle.js';
+import { toMetadataLabels } from './metadata.js';
+import * as sshKeys from './ssh-keys.js';
+import { toKeyLabels } from './authorized-keys.js';
+import { seedContainerKeys, syncContainerKeys } from './key-rotation.js';
+import { waitForReady, collectDiagnostics } from './readiness.js';
+import { getConfig } from './config.js';
 import { findAvailableSshPort } from '../utils/port.js';
 import type { CreateContainerRequest, ContainerInfo } from '../types/index.js';
 
 const ACM_LABEL = 'agent-container-management';
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const PROJECT_ROOT = join(__dirname, '..', '..', '..', '..');
-const SSH_KEYS_DIR = join(PROJECT_ROOT, 'data', 'ssh-keys');
-const APP_KEY_NAME = 'acm'; // Single app-wide SSH key
-
 export interface ContainerBuildResult {
   container: ContainerInfo;
+  image: { name: string; id?: string };
   privateKeyPath: string;
 }
 
-export async function buildAndCreateContainer(request: CreateContainerRequest): Promise<ContainerBuildResult> {
-  const { name, image, dockerfile, volumes, ports, env } = request;
-
-  // Get or create the app-wide SSH key
-  const { publicKey } = await getOrCreateAppSshKey();
-  const privateKeyPath = join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem`);
-
-  // Determine which image to use
-  let imageName: string;
-
-  if (dockerfile) {
-    // Build from user's dockerfile with SSH key baked in
-    imageName = `acm-${name}:latest`;
-    const dockerfileWithKey = injectPublicKey(dockerfile, publicKey);
-    await dockerService.buildImage(dockerfileWithKey, imageName);
-  } else if (image) {
-    // Check if this image is already ACM-ready (has our label)
-    const isAcmImage = await dockerService.imageHasLabel(image, ACM_LABEL);
-
-    if (isAcmImage) {
-      // Image already has SSH setup - use it directly
-      // Note: If SSH fails, user should rebuild the image to get current key
-      imageName = image;
-    } else {
-      // Base image needs SSH setup - build a new image with key baked in
-      imageName = `acm-${name}:latest`;
-      const baseDockerfile = createSshDockerfile(image, publicKey);
-      await dockerService.buildImage(baseDockerfile, imageName);
-    }
-  } else {
-    throw new Error('Either image or dockerfile must be provided');
-  }
+export interface BuildOptions {
+  onLog?: (message: string) => void;
+  signal?: AbortSignal; // Aborting cancels the build and removes what it created
+}
 
-  // Find available SSH port
-  const sshPort = await findAvailableSshPort();
-
-  // Create container
-  const container = await dockerService.createContainer({
-    name,
-    image: imageName,
-    sshPort,
-    volumes,
-    ports,
-    env,
-  });
-
-  // Start container
-  await container.start();
-
-  // Get container info
-  const containerInfo = await dockerService.getContainer(container.id);
-  if (!containerInfo) {
-    throw new Error('Failed to get container info after creation');
-  }
+export async function buildAndCreateContainer(
+  request: CreateContainerRequest,
+  options: BuildOptions = {}
+): Promise<ContainerBuildResult> {
+  const { name, image, dockerfile, volumes, ports, env, resources } = request;
+  const { onLog = () => {}, signal } = options;
 
-  return {
-    container: containerInfo,
-    privateKeyPath,
-  };
-}
+  // Track what this build created so a cancelled build can be undone
+  let builtImage: string | null = null;
+  let createdContainerId: string | null = null;
+  let sharedImage: string | null = null; // Shared base image referenced until the container exists
+  let createdKey = false;
 
-// Inject SSH public key into Dockerfile (replaces {{PUBLIC_KEY}} placeholder)
-function injectPublicKey(dockerfile: string, publicKey: string): string {
-  return dockerfile.replace(/\{\{PUBLIC_KEY\}\}/g, publicKey);
-}
+  try {
+    // Images always get the app-wide key; a per-container key replaces it before the container starts
+    const publicKey = await sshKeys.getPublicKey();
+    const sshKeyMode = request.sshKeyMode ?? (await getConfig()).sshKeyMode;
+    const privateKeyPath = sshKeyMode === 'container'
+      ? sshKeys.getContainerKeyPath(name)
+      : await sshKeys.getPrivateKeyPath();
+
+    // Determine which image to use
+    let imageName: string;
+
+    if (dockerfile) {
+      // Build from user's dockerfile with SSH key baked in
+      imageName = `acm-${name}:latest`;
+      const dockerfileWithKey = injectPublicKey(dockerfile, publicKey);
+      onLog(`Building image ${imageName} from Dockerfile\n`);
+      await dockerService.buildImageWithLogs(dockerfileWithKey, imageName, onLog, signal);
+      builtImage = imageName;
+    } else if (image) {
+      // Check if this image is already ACM-ready (has our label)
+      const isAcmImage = await dockerService.imageHasLabel(image, ACM_LABEL);
+
+      if (isAcmImage) {
+        // Image already has SSH setup - use it directly. If the app key has
+        // been rotated since, key rotation syncs it in once the container starts
+        imageName = image;
+        onLog(`Using prebuilt image ${imageName}\n`);
+      } else {
+        // Base image needs SSH setup - build (or reuse) the shared SSH-ready image
+        onLog(`Preparing SSH-ready image from ${image}\n`);
+        imageName = await baseImages.acquireSshBaseImage(image, publicKey, onLog, signal);
+        sharedImage = imageName;
+      }
+    } else {
+      throw new Error('Either image or dockerfile must be provided');
+    }
+    throwIfCancelled(signal);
+
+    // Find available SSH port, unless the gateway reaches containers directly
+    const sshPort = (await getConfig()).sshGateway ? null : await findAvailableSshPort();
+
+    // Create container
+    onLog(`Creating container ${name} (${sshPort ? `SSH port ${sshPort}` : 'SSH via gateway'})\n`);
+    const container = await dockerService.createContainer({
+      name,
+      image: imageName,
+      sshPort,
+      volumes,
+      ports,
+      env,
+      resources,
+      labels: {
+        ...toLifecycleLabels(request),
+        ...toMetadataLabels(request),
+        ...toKeyLabels(request),
+        ...(sshKeyMode === 'container' ? { [dockerService.SSH_KEY_LABEL]: 'container' } : {}),
+      },
+    });
+    createdContainerId = container.id;
+    throwIfCancelled(signal);
+
+    if (sshKeyMode === 'container') {
+      onLog(`Generating SSH key for ${name}\n`);
+      createdKey = true;
+      await sshKeys.createContainerKey(name);
+    }
 
-export async function getPrivateKeyPath(): Promise<string> {
-  return join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem`);
-}
+    // Own or registered keys go in before sshd first runs
+    await seedContainerKeys(container.id);
 
-export async function getPrivateKey(): Promise<string> {
-  const keyPath = await getPrivateKeyPath();
-  return readFile(keyPath, 'utf-8');
-}
+    // Start container
+    onLog(`Starting container ${name}\n`);
+    await container.start();
+    throwIfCancelled(signal);
 
-export async function getPublicKey(): Promise<string> {
-  const { publicKey } = await getOrCreateAppSshKey();
-  return publicKey;
-}
+    // Own or registered keys, or an app key rotated since the image was built
+    onLog(`Updating authorized SSH keys\n`);
+    await syncContainerKeys(container.id);
+    throwIfCancelled(signal);
 
-async function getOrCreateAppSshKey(): Promise<{ publicKey: string; privateKey: string }> {
-  await mkdir(SSH_KEYS_DIR, { recursive: true });
+    await waitUntilReady(container.id, name, onLog, signal);
 
-  const privateKeyPath = join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem`);
-  const publicKeyPath = join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem.pub`);
+    // Get container info
+    const containerInfo = await dockerService.getContainer(container.id);
+    if (!containerInfo) {
+      throw new Error('Failed to get container info after creation');
+    }
 
-  // Check if key already exists
-  try {
-    await access(privateKeyPath);
-    // Key exists, read and return it
-    const privateKey = await readFile(privateKeyPath, 'utf-8');
-    // Regenerate public key from private key if needed
-    execSync(`ssh-keygen -y -f "${privateKeyPath}" > "${publicKeyPath}"`, { stdio: 'pipe' });
-    const publicKey = await readFile(publicKeyPath, 'utf-8');
-    await rm(publicKeyPath);
-    return { publicKey: publicKey.trim(), privateKey };
-  } catch {
-    // Key doesn't exist, generate new one
+    const imageId = await dockerService.getImageId(imageName);
+
+    // Last chance to honour a cancel: once this returns the build completes,
+    // and a cancel arriving later is refused because the build is no longer active
+    throwIfCancelled(signal);
+
+    return {
+      container: containerInfo,
+      image: { name: imageName, id: imageId },
+      privateKeyPath,
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      await cleanupCancelledBuild(builtImage, createdContainerId);
+      if (createdKey) {
+        await sshKeys.deleteContainerKey(name).catch(() => {});
+      }
+      throw new Error('Build cancelled');
+    }
+    throw error;
+  } finally {
+    if (sharedImage) {
+      baseImages.releaseBaseImage(sharedImage);
+    }
   }
+}
 
-  // Generate key pair using ssh-keygen
-  execSync(`ssh-keygen -t rsa -b 4096 -f "${privateKeyPath}" -N "" -C "agent-container-management"`, {
-    stdio: 'pipe',
-  });
+// Fail the build, with the container's state and output in the log, if sshd
+// never answers. The container is kept so it can be inspected.
+export async function waitUntilReady(
+  containerId: string,
+  name: string,
+  onLog: (message: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  onLog(`Waiting for ${name} to accept SSH connections\n`);
+  const result = await waitForReady(containerId, signal);
+  if (result.readiness === 'ready') {
+    onLog(`${name} is ready\n`);
+    return;
+  }
 
-  // Read the generated keys
-  const privateKey = await readFile(privateKeyPath, 'utf-8');
-  const publicKey = await readFile(publicKeyPath, 'utf-8');
+  onLog(`${name} did not become ready: ${result.error}\n`);
+  onLog(await collectDiagnostics(containerId));
+  throw new Error(`Container did not become ready: ${result.error}`);
+}
 
-  // Clean up the .pub file (we only need the content)
-  await rm(publicKeyPath);
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Build cancelled');
+  }
+}
 
-  return { publicKey: publicKey.trim(), privateKey };
+// Remove the container and image a cancelled build left behind
+async function cleanupCancelledBuild(imageName: string | null, containerId: string | null): Promise<void> {
+  if (containerId) {
+    await dockerService.removeContainer(containerId).catch(() => {});
+  }
+  if (imageName) {
+    await dockerService.removeImage(imageName).catch(() => {});
+  }
 }
 
-// Generate a complete Dockerfile when user only provides a base image
-function createSshDockerfile(baseImage: string, publicKey: string): string {
-  return `FROM ${baseImage}
-
-# Install packages
-RUN apt-get update && apt-get install -y \\
-    openssh-server \\
-    sudo \\
-    curl \\
-    git \\
-    vim \\
-    && rm -rf /var/lib/apt/lists/* \\
-    && mkdir -p /var/run/sshd
-
-# Create non-root user with sudo access
-RUN useradd -m -s /bin/bash dev \\
-    && echo 'dev ALL=(ALL) NOPASSWD:ALL' >> /etc/sudoers
-
-# Configure SSH for key-based auth
-RUN sed -i 's/#PubkeyAuthentication.*/PubkeyAuthentication yes/' /etc/ssh/sshd_config \\
-    && sed -i 's/#PasswordAuthentication.*/PasswordAuthentication no/' /etc/ssh/sshd_config
-
-# Setup SSH key
-RUN mkdir -p /home/dev/.ssh \\
-    && chmod 700 /home/dev/.ssh \\
-    && echo '${publicKey}' > /home/dev/.ssh/authorized_keys \\
-    && chmod 600 /home/dev/.ssh/authorized_keys \\
-    && chown -R dev:dev /home/dev/.ssh
-
-# Add ~/.local/bin to PATH for pip-installed tools
-RUN echo 'export PATH="$HOME/.local/bin:$PATH"' >> /home/dev/.bashrc
-
-# Set working directory
-RUN mkdir -p /home/dev/workspace && chown dev:dev /home/dev/workspace
-WORKDIR /home/dev/workspace
-
-EXPOSE 22
-CMD ["/usr/sbin/sshd", "-D"]
-`;
+// Inject SSH public key into Dockerfile (replaces {{PUBLIC_KEY}} placeholder)
+function injectPublicKey(dockerfile: string, publicKey: string): string {
+  return dockerfile.replace(/\{\{PUBLIC_KEY\}\}/g, publicKey);
 }
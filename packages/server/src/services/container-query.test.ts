@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { applyContainerFilter, buildContainerFilter, parseSearchQuery } from './container-query.js';
+import type { ContainerInfo, ContainerListQuery } from '../types/index.js';
+
+function container(name: string, fields: Partial<ContainerInfo> = {}): ContainerInfo {
+  return {
+    id: name,
+    name,
+    image: 'ubuntu:24.04',
+    state: 'running',
+    tags: [],
+    createdAt: '2024-06-01T00:00:00.000Z',
+    ...fields,
+  } as ContainerInfo;
+}
+
+const query = (fields: Partial<ContainerListQuery>) => ({ offset: 0, ...fields }) as ContainerListQuery;
+
+describe('parseSearchQuery', () => {
+  it('parses keys and joins bare words into the name', () => {
+    expect(parseSearchQuery('agent state:running,paused tag:project-x image:ubuntu sort:name one')).toEqual({
+      name: 'agent one',
+      states: ['running', 'paused'],
+      tags: ['project-x'],
+      image: 'ubuntu',
+      sort: 'name',
+    });
+  });
+
+  it('accumulates repeated tag and state keys', () => {
+    expect(parseSearchQuery('tag:a tag:b,c is:stopped state:exited')).toEqual({
+      tags: ['a', 'b', 'c'],
+      states: ['stopped', 'exited'],
+    });
+  });
+
+  it('treats name: like a bare word and is case-insensitive about keys', () => {
+    expect(parseSearchQuery('name:web STATE:running')).toEqual({ name: 'web', states: ['running'] });
+  });
+
+  it('reads dates and unix seconds', () => {
+    expect(parseSearchQuery('after:2024-06-01 before:1717300000.9')).toEqual({
+      createdAfter: 1717200000,
+      createdBefore: 1717300000,
+    });
+  });
+
+  it('keeps words that merely start with a colon', () => {
+    expect(parseSearchQuery(':8080')).toEqual({ name: ':8080' });
+  });
+
+  it('returns an empty filter for blank text', () => {
+    expect(parseSearchQuery('   ')).toEqual({});
+  });
+
+  it('rejects unknown keys, states, sorts, dates and empty values', () => {
+    expect(() => parseSearchQuery('color:red')).toThrow('Unknown search key "color"');
+    expect(() => parseSearchQuery('state:sleeping')).toThrow('Unknown state "sleeping"');
+    expect(() => parseSearchQuery('sort:size')).toThrow('Unknown sort "size"');
+    expect(() => parseSearchQuery('after:yesterday')).toThrow('Invalid date "yesterday"');
+    expect(() => parseSearchQuery('tag:')).toThrow('Missing value for "tag:"');
+  });
+});
+
+describe('buildContainerFilter', () => {
+  it('lets structured params override the search text', () => {
+    expect(buildContainerFilter(query({ q: 'agent state:running tag:a', state: 'stopped', tag: 'b,c' }))).toEqual({
+      name: 'agent',
+      states: ['stopped'],
+      tags: ['b', 'c'],
+    });
+  });
+
+  it('keeps a createdAfter of 0', () => {
+    expect(buildContainerFilter(query({ createdAfter: 0 }))).toEqual({ createdAfter: 0 });
+  });
+});
+
+describe('applyContainerFilter', () => {
+  const list = [
+    container('alpha', { state: 'stopped', tags: ['x'], createdAt: '2024-01-01T00:00:00.000Z' }),
+    container('Beta', { image: 'node:20', tags: ['x', 'y'], createdAt: '2024-03-01T00:00:00.000Z' }),
+    container('gamma', { createdAt: '2024-02-01T00:00:00.000Z' }),
+  ];
+  const names = (result: ContainerInfo[]) => result.map((c) => c.name);
+
+  it('sorts newest first by default', () => {
+    expect(names(applyContainerFilter(list, {}))).toEqual(['Beta', 'gamma', 'alpha']);
+  });
+
+  it('sorts by the chosen key in either direction', () => {
+    expect(names(applyContainerFilter(list, { sort: 'name' }))).toEqual(['alpha', 'Beta', 'gamma']);
+    expect(names(applyContainerFilter(list, { sort: '-state' }))).toEqual(['alpha', 'Beta', 'gamma']);
+  });
+
+  it('requires every tag and any of the states', () => {
+    expect(names(applyContainerFilter(list, { tags: ['x', 'y'] }))).toEqual(['Beta']);
+    expect(names(applyContainerFilter(list, { states: ['stopped', 'paused'] }))).toEqual(['alpha']);
+  });
+
+  it('matches name and image substrings case-insensitively', () => {
+    expect(names(applyContainerFilter(list, { name: 'BET' }))).toEqual(['Beta']);
+    expect(names(applyContainerFilter(list, { image: 'UBUNTU', sort: 'name' }))).toEqual(['alpha', 'gamma']);
+  });
+
+  it('includes createdAfter and excludes createdBefore', () => {
+    const feb = Date.parse('2024-02-01T00:00:00.000Z') / 1000;
+    expect(names(applyContainerFilter(list, { createdAfter: feb }))).toEqual(['Beta', 'gamma']);
+    expect(names(applyContainerFilter(list, { createdBefore: feb }))).toEqual(['alpha']);
+  });
+});
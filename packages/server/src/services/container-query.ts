@@ -0,0 +1,147 @@
+// One filter model for the container list, reachable two ways: structured
+// query params, or search text in `q` such as
+//
+//   agent state:running,paused tag:project-x image:ubuntu after:2024-06-01 sort:name
+//
+// Bare words match the name. `tag:` may repeat (all must match); `state:`
+// takes a comma-separated list (any may match). The web search bar sends its
+// text as `q`, so scripts and the UI share the same parser.
+
+import {
+  CONTAINER_SORTS,
+  type ContainerInfo,
+  type ContainerListQuery,
+  type ContainerSort,
+  timeQuery,
+} from '../types/index.js';
+
+const STATES: ReadonlyArray<ContainerInfo['state']> = [
+  'running', 'stopped', 'created', 'exited', 'paused', 'queued', 'building', 'failed',
+];
+
+export interface ContainerFilter {
+  states?: Array<ContainerInfo['state']>;
+  name?: string;
+  image?: string;
+  tags?: string[];
+  createdAfter?: number; // Unix seconds
+  createdBefore?: number;
+  sort?: ContainerSort;
+}
+
+// Throws with a user-facing message on an unknown key or bad value
+export function parseSearchQuery(q: string): ContainerFilter {
+  const filter: ContainerFilter = {};
+  const words: string[] = [];
+
+  for (const token of q.trim().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(':');
+    if (separator <= 0) {
+      words.push(token);
+      continue;
+    }
+
+    const key = token.slice(0, separator).toLowerCase();
+    const value = token.slice(separator + 1);
+    if (!value) {
+      throw new Error(`Missing value for "${key}:"`);
+    }
+
+    switch (key) {
+      case 'state':
+      case 'is':
+        filter.states = [...(filter.states || []), ...parseStates(value)];
+        break;
+      case 'name':
+        words.push(value);
+        break;
+      case 'image':
+        filter.image = value;
+        break;
+      case 'tag':
+        filter.tags = [...(filter.tags || []), ...value.split(',').filter(Boolean)];
+        break;
+      case 'after':
+        filter.createdAfter = parseTime(value);
+        break;
+      case 'before':
+        filter.createdBefore = parseTime(value);
+        break;
+      case 'sort':
+        if (!(CONTAINER_SORTS as readonly string[]).includes(value)) {
+          throw new Error(`Unknown sort "${value}"; expected one of ${CONTAINER_SORTS.join(', ')}`);
+        }
+        filter.sort = value as ContainerSort;
+        break;
+      default:
+        throw new Error(`Unknown search key "${key}"`);
+    }
+  }
+
+  if (words.length > 0) {
+    filter.name = words.join(' ');
+  }
+  return filter;
+}
+
+// Structured params layered over whatever `q` specified
+export function buildContainerFilter(query: ContainerListQuery): ContainerFilter {
+  const filter = query.q ? parseSearchQuery(query.q) : {};
+
+  if (query.state) filter.states = parseStates(query.state);
+  if (query.name) filter.name = query.name;
+  if (query.image) filter.image = query.image;
+  if (query.tag) filter.tags = query.tag.split(',').filter(Boolean);
+  if (query.createdAfter !== undefined) filter.createdAfter = query.createdAfter;
+  if (query.createdBefore !== undefined) filter.createdBefore = query.createdBefore;
+  if (query.sort) filter.sort = query.sort;
+
+  return filter;
+}
+
+export function applyContainerFilter(containers: ContainerInfo[], filter: ContainerFilter): ContainerInfo[] {
+  const name = filter.name?.toLowerCase();
+  const image = filter.image?.toLowerCase();
+
+  const matches = containers.filter((c) => {
+    const created = Date.parse(c.createdAt) / 1000;
+    return (
+      (!filter.states || filter.states.includes(c.state)) &&
+      (!name || c.name.toLowerCase().includes(name)) &&
+      (!image || c.image.toLowerCase().includes(image)) &&
+      (!filter.tags || filter.tags.every((tag) => c.tags.includes(tag))) &&
+      (filter.createdAfter === undefined || created >= filter.createdAfter) &&
+      (filter.createdBefore === undefined || created < filter.createdBefore)
+    );
+  });
+
+  const sort = filter.sort || '-created';
+  const descending = sort.startsWith('-');
+  const key = (descending ? sort.slice(1) : sort) as 'name' | 'created' | 'state' | 'image';
+
+  return matches.sort((a, b) => {
+    const order = key === 'created'
+      ? Date.parse(a.createdAt) - Date.parse(b.createdAt)
+      : a[key].localeCompare(b[key]);
+    return descending ? -order : order;
+  });
+}
+
+function parseStates(value: string): Array<ContainerInfo['state']> {
+  return value.split(',').filter(Boolean).map((state) => {
+    if (!STATES.includes(state as ContainerInfo['state'])) {
+      throw new Error(`Unknown state "${state}"; expected one of ${STATES.join(', ')}`);
+    }
+    return state as ContainerInfo['state'];
+  });
+}
+
+// Unix seconds or anything Date.parse accepts (e.g. 2024-06-01), read the
+// same way as the createdAfter/createdBefore params
+function parseTime(value: string): number {
+  const result = timeQuery.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return result.data;
+}
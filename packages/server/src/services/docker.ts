@@ -1,17 +1,34 @@
 import Docker from 'dockerode';
-import type { ContainerInfo, VolumeInfo, ImageInfo } from '../types/index.js';
+import { PassThrough, Writable } from 'stream';
+import type {
+  ContainerInfo,
+  VolumeInfo,
+  ImageInfo,
+  ContainerLogsQuery,
+  ContainerLogLine,
+  ContainerStats,
+  ResourceLimits,
+} from '../types/index.js';
 import { getConfig } from './config.js';
+import { toHostConfig, fromHostConfig } from './resource-limits.js';
+import { fromLifecycleLabels } from './lifecycle.js';
+import { fromMetadataLabels } from './metadata.js';
+import { fromKeyLabels } from './authorized-keys.js';
 
 const docker = new Docker();
 
 const CONTAINER_LABEL = 'agent-container-management';
 const IMAGE_LABEL = 'agent-container-management';
+export const BASE_IMAGE_LABEL = 'acm.base-image'; // Source image of a shared SSH-ready image
+export const SSH_KEY_LABEL = 'acm.ssh-key'; // "container" when the container has its own keypair
 
-export async function listContainers(): Promise<ContainerInfo[]> {
+// labels: extra Docker label filters ("key" or "key=value")
+export async function listContainers(labels: string[] = []): Promise<ContainerInfo[]> {
   const containers = await docker.listContainers({
     all: true,
-    filters: { label: [CONTAINER_LABEL] },
+    filters: { label: [CONTAINER_LABEL, ...labels] },
   });
+  const volumesDir = await getVolumesDir();
 
   return containers.map((container) => {
     const sshPort = extractSshPort(container.Ports);
@@ -23,8 +40,13 @@ export async function listContainers(): Promise<ContainerInfo[]> {
       state: mapState(container.State),
       sshPort,
       sshCommand: sshPort ? `ssh -p ${sshPort} root@localhost` : null,
-      volumes: extractVolumes(container.Mounts),
+      volumes: extractVolumes(container.Mounts, volumesDir),
       ports: extractPorts(container.Ports),
+      labels: container.Labels,
+      lifecycle: fromLifecycleLabels(container.Labels),
+      ...fromMetadataLabels(container.Labels),
+      sshKeyMode: container.Labels[SSH_KEY_LABEL] === 'container' ? 'container' : 'shared',
+      ...fromKeyLabels(container.Labels),
       createdAt: new Date(container.Created * 1000).toISOString(),
     };
   });
@@ -34,6 +56,7 @@ export async function getContainer(id: string): Promise<ContainerInfo | null> {
   try {
     const container = docker.getContainer(id);
     const info = await container.inspect();
+    const volumesDir = await getVolumesDir();
 
     const sshPort = extractSshPortFromInspect(info.NetworkSettings.Ports);
     return {
@@ -44,8 +67,14 @@ export async function getContainer(id: string): Promise<ContainerInfo | null> {
       state: mapState(info.State.Status),
       sshPort,
       sshCommand: sshPort ? `ssh -p ${sshPort} root@localhost` : null,
-      volumes: extractVolumesFromInspect(info.Mounts),
+      volumes: extractVolumes(info.Mounts, volumesDir),
       ports: extractPortsFromInspect(info.NetworkSettings.Ports),
+      resources: fromHostConfig(info.HostConfig),
+      labels: info.Config.Labels || {},
+      lifecycle: fromLifecycleLabels(info.Config.Labels),
+      ...fromMetadataLabels(info.Config.Labels),
+      sshKeyMode: info.Config.Labels?.[SSH_KEY_LABEL] === 'container' ? 'container' : 'shared',
+      ...fromKeyLabels(info.Config.Labels),
       createdAt: info.Created,
     };
   } catch {
@@ -53,15 +82,68 @@ export async function getContainer(id: string): Promise<ContainerInfo | null> {
   }
 }
 
+// Low-level process state, for explaining why a container isn't usable
+export interface ContainerProcessState {
+  status: string;
+  running: boolean;
+  exitCode: number;
+  error: string;
+  oomKilled: boolean;
+  startedAt: string; // When the container was last started
+}
+
+export async function getContainerProcessState(id: string): Promise<ContainerProcessState | null> {
+  try {
+    const { State } = await docker.getContainer(id).inspect();
+    return {
+      status: State.Status,
+      running: State.Running,
+      exitCode: State.ExitCode,
+      error: State.Error,
+      oomKilled: State.OOMKilled,
+      startedAt: State.StartedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// The container's IP on its first Docker network, for reaching it directly
+export async function getContainerAddress(id: string): Promise<string | null> {
+  try {
+    const { NetworkSettings } = await docker.getContainer(id).inspect();
+    if (NetworkSettings.IPAddress) {
+      return NetworkSettings.IPAddress;
+    }
+    const network = Object.values(NetworkSettings.Networks || {}).find((n) => n.IPAddress);
+    return network?.IPAddress ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export async function createContainer(options: {
   name: string;
   image: string;
-  sshPort: number;
+  sshPort: number | null; // null leaves sshd reachable only over the Docker network
   volumes?: Array<{ name: string; mountPath: string }>;
   ports?: Array<{ container: number; host: number }>;
   env?: Record<string, string>;
+  resources?: ResourceLimits;
+  labels?: Record<string, string>;
+  restartPolicy?: Docker.HostRestartPolicy;
 }): Promise<Docker.Container> {
-  const { name, image, sshPort, volumes = [], ports = [], env = {} } = options;
+  const {
+    name,
+    image,
+    sshPort,
+    volumes = [],
+    ports = [],
+    env = {},
+    resources,
+    labels = {},
+    restartPolicy = { Name: 'unless-stopped' },
+  } = options;
 
   // Convert volume names to local directory paths for bind mounts
   const binds: string[] = [];
@@ -73,9 +155,9 @@ export async function createContainer(options: {
 
   // Build exposed ports and port bindings
   const exposedPorts: Record<string, object> = { '22/tcp': {} };
-  const portBindings: Record<string, Array<{ HostPort: string }>> = {
-    '22/tcp': [{ HostPort: sshPort.toString() }],
-  };
+  const portBindings: Record<string, Array<{ HostPort: string }>> = sshPort
+    ? { '22/tcp': [{ HostPort: sshPort.toString() }] }
+    : {};
 
   for (const port of ports) {
     const key = `${port.container}/tcp`;
@@ -87,27 +169,202 @@ export async function createContainer(options: {
     name,
     Hostname: name,
     Image: image,
-    Labels: { [CONTAINER_LABEL]: 'true' },
+    Labels: { ...labels, [CONTAINER_LABEL]: 'true' },
     Env: envArray,
     ExposedPorts: exposedPorts,
     HostConfig: {
       PortBindings: portBindings,
       Binds: binds.length > 0 ? binds : undefined,
-      RestartPolicy: { Name: 'unless-stopped' },
+      RestartPolicy: restartPolicy,
+      ...toHostConfig(resources),
     },
   });
 
   return container;
 }
 
+// Settings of an existing container that aren't part of ContainerInfo,
+// needed to recreate it faithfully
+export interface ContainerRuntimeConfig {
+  imageId: string;
+  env: Record<string, string>; // Only values set on the container, not inherited from the image
+  labels: Record<string, string>;
+  restartPolicy: Docker.HostRestartPolicy;
+  sshPort: number | null; // Host port bound to sshd, known even while stopped
+}
+
+export async function getContainerRuntimeConfig(id: string): Promise<ContainerRuntimeConfig> {
+  const info = await docker.getContainer(id).inspect();
+
+  let imageEnv = new Set<string>();
+  try {
+    const image = await docker.getImage(info.Image).inspect();
+    imageEnv = new Set(image.Config?.Env || []);
+  } catch {
+    // Image is gone; keep the container's full environment
+  }
+
+  const env: Record<string, string> = {};
+  for (const entry of info.Config.Env || []) {
+    if (imageEnv.has(entry)) continue;
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      env[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  }
+
+  return {
+    imageId: info.Image,
+    env,
+    labels: info.Config.Labels || {},
+    restartPolicy: info.HostConfig.RestartPolicy || { Name: 'unless-stopped' },
+    sshPort: extractSshPortFromInspect(info.HostConfig.PortBindings || {}),
+  };
+}
+
+// The SSH port a container is configured with. ContainerInfo.sshPort comes
+// from NetworkSettings, which Docker empties while a container is stopped;
+// the port binding in HostConfig stays.
+export async function getConfiguredSshPort(container: Pick<ContainerInfo, 'id' | 'sshPort'>): Promise<number | null> {
+  if (container.sshPort) {
+    return container.sshPort;
+  }
+  try {
+    const info = await docker.getContainer(container.id).inspect();
+    return extractSshPortFromInspect(info.HostConfig.PortBindings || {});
+  } catch {
+    return null;
+  }
+}
+
+// Save a container's filesystem as an image; returns the new image ID
+export async function commitContainer(
+  id: string,
+  repo: string,
+  tag: string,
+  labels: Record<string, string> = {}
+): Promise<string> {
+  const result = await docker.getContainer(id).commit({
+    repo,
+    tag,
+    pause: true,
+    changes: Object.entries({ ...labels, [IMAGE_LABEL]: 'true' }).map(([k, v]) => `LABEL ${k}=${JSON.stringify(v)}`),
+  });
+  return result.Id;
+}
+
+// Filesystem layers of the image a container runs from
+export async function getContainerLayerCount(id: string): Promise<number> {
+  const info = await docker.getContainer(id).inspect();
+  const image = await docker.getImage(info.Image).inspect();
+  return image.RootFS?.Layers?.length ?? 0;
+}
+
+// Like commitContainer, but exports the filesystem and imports it as a
+// single-layer image, carrying over the container's command, env, user,
+// workdir, exposed ports, volumes and labels. Used once commits would stack past
+// Docker's layer limit.
+export async function flattenContainer(
+  id: string,
+  repo: string,
+  tag: string,
+  labels: Record<string, string> = {}
+): Promise<string> {
+  const container = docker.getContainer(id);
+  const info = await container.inspect();
+  const config = info.Config;
+
+  const changes: string[] = [];
+  if (config.Entrypoint) {
+    changes.push(`ENTRYPOINT ${JSON.stringify(config.Entrypoint)}`);
+  }
+  if (config.Cmd) {
+    changes.push(`CMD ${JSON.stringify(config.Cmd)}`);
+  }
+  if (config.WorkingDir) {
+    changes.push(`WORKDIR ${config.WorkingDir}`);
+  }
+  if (config.User) {
+    changes.push(`USER ${config.User}`);
+  }
+  for (const port of Object.keys(config.ExposedPorts || {})) {
+    changes.push(`EXPOSE ${port}`);
+  }
+  for (const volume of Object.keys(config.Volumes || {})) {
+    changes.push(`VOLUME ${JSON.stringify([volume])}`);
+  }
+  for (const entry of config.Env || []) {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      changes.push(`ENV ${entry.slice(0, separator)}=${JSON.stringify(entry.slice(separator + 1))}`);
+    }
+  }
+  for (const [k, v] of Object.entries({ ...config.Labels, ...labels, [IMAGE_LABEL]: 'true' })) {
+    changes.push(`LABEL ${k}=${JSON.stringify(v)}`);
+  }
+
+  // Pause like commit does so the export is consistent
+  const pause = info.State.Running && !info.State.Paused;
+  if (pause) {
+    await container.pause();
+  }
+  try {
+    const archive = await container.export();
+    const stream = await docker.importImage(archive, { repo, tag, changes });
+    await new Promise<void>((resolve, reject) => {
+      docker.modem.followProgress(stream, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  } finally {
+    if (pause) {
+      await container.unpause();
+    }
+  }
+
+  const imageId = await getImageId(`${repo}:${tag}`);
+  if (!imageId) {
+    throw new Error(`Failed to import flattened image ${repo}:${tag}`);
+  }
+  return imageId;
+}
+
+export async function renameContainer(id: string, name: string): Promise<void> {
+  await docker.getContainer(id).rename({ name });
+}
+
 export async function startContainer(id: string): Promise<void> {
   const container = docker.getContainer(id);
   await container.start();
 }
 
-export async function stopContainer(id: string): Promise<void> {
+// Docker sends SIGTERM, then SIGKILL once the timeout (seconds) runs out;
+// without one the configured stopTimeout applies
+export async function stopContainer(id: string, timeout?: number): Promise<void> {
+  const container = docker.getContainer(id);
+  await container.stop({ t: timeout ?? (await getConfig()).stopTimeout });
+}
+
+export async function restartContainer(id: string, timeout?: number): Promise<void> {
+  const container = docker.getContainer(id);
+  await container.restart({ t: timeout ?? (await getConfig()).stopTimeout });
+}
+
+// Freeze every process in the container (cgroup freezer); memory stays allocated
+export async function pauseContainer(id: string): Promise<void> {
+  const container = docker.getContainer(id);
+  await container.pause();
+}
+
+export async function unpauseContainer(id: string): Promise<void> {
+  const container = docker.getContainer(id);
+  await container.unpause();
+}
+
+export async function killContainer(id: string, signal: string): Promise<void> {
   const container = docker.getContainer(id);
-  await container.stop();
+  await container.kill({ signal });
 }
 
 export async function removeContainer(id: string): Promise<void> {
@@ -115,13 +372,378 @@ export async function removeContainer(id: string): Promise<void> {
   await container.remove({ force: true });
 }
 
-export async function listImages(): Promise<ImageInfo[]> {
-  const images = await docker.listImages({
-    filters: { label: [IMAGE_LABEL] },
+// Write a file into a container, running or not; the directory must exist
+export async function writeContainerFile(
+  id: string,
+  dir: string,
+  name: string,
+  content: string,
+  mode: number
+): Promise<void> {
+  const { pack } = await import('tar-stream');
+
+  const tarStream = pack();
+  tarStream.entry({ name, mode, uid: 0, gid: 0 }, content);
+  tarStream.finalize();
+
+  await docker.getContainer(id).putArchive(tarStream, { path: dir });
+}
+
+// Run a command to completion in a running container; stdout and stderr are
+// returned together
+export async function execInContainer(
+  id: string,
+  cmd: string[],
+  options: { user?: string; env?: Record<string, string> } = {}
+): Promise<{ exitCode: number | null; output: string }> {
+  const exec = await docker.getContainer(id).exec({
+    Cmd: cmd,
+    AttachStdout: true,
+    AttachStderr: true,
+    User: options.user ?? 'root',
+    Env: Object.entries(options.env || {}).map(([k, v]) => `${k}=${v}`),
   });
+  const stream = await exec.start({});
+
+  const chunks: Buffer[] = [];
+  const output = new PassThrough();
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  docker.modem.demuxStream(stream, output, output);
+
+  await new Promise<void>((resolve, reject) => {
+    stream.on('end', resolve);
+    stream.on('error', reject);
+  });
+
+  const info = await exec.inspect();
+  return { exitCode: info.ExitCode ?? null, output: Buffer.concat(chunks).toString() };
+}
+
+// Stream a container's stdout/stderr line by line. Resolves when the log
+// stream ends (immediately after the backlog unless follow is set) or the
+// signal is aborted.
+export async function streamContainerLogs(
+  id: string,
+  options: ContainerLogsQuery,
+  onLine: (line: ContainerLogLine) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const container = docker.getContainer(id);
+  const info = await container.inspect();
+
+  const logOptions = {
+    stdout: true,
+    stderr: true,
+    tail: options.tail,
+    since: options.since,
+    until: options.until,
+    timestamps: options.timestamps ?? false,
+  };
+
+  let stream: NodeJS.ReadableStream;
+  if (options.follow) {
+    stream = await container.logs({ ...logOptions, follow: true });
+  } else {
+    const buffer = await container.logs({ ...logOptions, follow: false });
+    const passThrough = new PassThrough();
+    passThrough.end(buffer);
+    stream = passThrough;
+  }
+
+  const stdout = createLineWriter('stdout', logOptions.timestamps, onLine);
+  const stderr = createLineWriter('stderr', logOptions.timestamps, onLine);
+
+  // TTY containers have a single raw stream; others are multiplexed
+  if (info.Config.Tty) {
+    stream.pipe(stdout);
+  } else {
+    docker.modem.demuxStream(stream, stdout, stderr);
+  }
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      stdout.flush();
+      stderr.flush();
+      resolve();
+    };
+    const onAbort = () => {
+      (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+      finish();
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    stream.on('end', finish);
+    stream.on('close', finish);
+    stream.on('error', (err) => {
+      if (signal?.aborted) {
+        finish();
+      } else {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    });
+  });
+}
+
+// Writable that splits a raw log stream into lines
+function createLineWriter(
+  stream: ContainerLogLine['stream'],
+  timestamps: boolean,
+  onLine: (line: ContainerLogLine) => void
+): Writable & { flush: () => void } {
+  let pending = '';
+
+  const emit = (raw: string) => {
+    const text = raw.replace(/\r$/, '');
+    if (timestamps) {
+      const spaceIndex = text.indexOf(' ');
+      if (spaceIndex > 0) {
+        onLine({ stream, timestamp: text.slice(0, spaceIndex), text: text.slice(spaceIndex + 1) });
+        return;
+      }
+    }
+    onLine({ stream, text });
+  };
+
+  const writer = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      pending += chunk.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        emit(line);
+      }
+      callback();
+    },
+  });
+
+  return Object.assign(writer, {
+    flush: () => {
+      if (pending) {
+        emit(pending);
+        pending = '';
+      }
+    },
+  });
+}
+
+// Stream computed resource usage roughly once a second until the container
+// stops or the signal is aborted
+export async function streamContainerStats(
+  id: string,
+  onStats: (stats: ContainerStats) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const container = docker.getContainer(id);
+  const stream = (await container.stats({ stream: true })) as NodeJS.ReadableStream;
+
+  return new Promise((resolve, reject) => {
+    let pending = '';
+
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+      finish();
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    stream.on('data', (chunk: Buffer) => {
+      pending += chunk.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          onStats(computeStats(JSON.parse(line), id));
+        } catch {
+          // Skip partial or malformed readings
+        }
+      }
+    });
+    stream.on('end', finish);
+    stream.on('close', finish);
+    stream.on('error', (err) => {
+      if (signal?.aborted) {
+        finish();
+      } else {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    });
+  });
+}
+
+// Single resource usage reading (Docker samples twice to compute CPU usage)
+export async function getContainerStats(id: string): Promise<ContainerStats> {
+  const raw = await docker.getContainer(id).stats({ stream: false });
+  return computeStats(raw, id);
+}
+
+// Open SSH sessions, counted from the per-connection sshd processes
+// ("sshd: root@pts/0", or "sshd-session: ..." on OpenSSH 9.8+)
+export async function countSshSessions(id: string): Promise<number> {
+  const top = (await docker.getContainer(id).top({ ps_args: '-eo args' })) as {
+    Titles: string[];
+    Processes: string[][];
+  };
+  const column = top.Titles.findIndex((title) => /^(COMMAND|CMD|ARGS)$/i.test(title));
+  return top.Processes.filter((process) => /^sshd(-session)?: \S+@/.test(process[column === -1 ? 0 : column]))
+    .length;
+}
+
+// Same CPU and memory calculations as `docker stats`
+function computeStats(raw: Docker.ContainerStats & { name?: string }, id: string): ContainerStats {
+  const cpuDelta = raw.cpu_stats.cpu_usage.total_usage - (raw.precpu_stats.cpu_usage?.total_usage || 0);
+  const systemDelta = (raw.cpu_stats.system_cpu_usage || 0) - (raw.precpu_stats.system_cpu_usage || 0);
+  const onlineCpus = raw.cpu_stats.online_cpus || raw.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+  const cpuPercent = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+  // cgroup v1 reports page cache as "cache", v2 as "inactive_file"
+  const memoryDetails = (raw.memory_stats.stats || {}) as unknown as Record<string, number | undefined>;
+  const cache = memoryDetails.inactive_file ?? memoryDetails.total_inactive_file ?? memoryDetails.cache ?? 0;
+  const memoryUsage = Math.max(0, (raw.memory_stats.usage || 0) - cache);
+  const memoryLimit = raw.memory_stats.limit || 0;
+
+  let networkRx = 0;
+  let networkTx = 0;
+  for (const network of Object.values(raw.networks || {})) {
+    networkRx += network.rx_bytes;
+    networkTx += network.tx_bytes;
+  }
+
+  let blockRead = 0;
+  let blockWrite = 0;
+  for (const entry of raw.blkio_stats?.io_service_bytes_recursive || []) {
+    const op = entry.op.toLowerCase();
+    if (op === 'read') blockRead += entry.value;
+    else if (op === 'write') blockWrite += entry.value;
+  }
+
+  return {
+    containerId: id,
+    name: raw.name?.replace(/^\//, '') || '',
+    timestamp: raw.read,
+    cpuPercent: Math.round(cpuPercent * 100) / 100,
+    memoryUsage,
+    memoryLimit,
+    memoryPercent: memoryLimit > 0 ? Math.round((memoryUsage / memoryLimit) * 10000) / 100 : 0,
+    networkRx,
+    networkTx,
+    blockRead,
+    blockWrite,
+    pids: raw.pids_stats?.current || 0,
+  };
+}
+
+export interface ShellSession {
+  stream: NodeJS.ReadWriteStream;
+  resize: (cols: number, rows: number) => Promise<void>;
+  exitCode: () => Promise<number | null>;
+  close: () => void;
+}
+
+// Start an interactive login shell inside a running container with a TTY.
+// Falls back to sh for images without bash.
+export async function createShellSession(
+  id: string,
+  options: { user: string; cols: number; rows: number }
+): Promise<ShellSession> {
+  const container = docker.getContainer(id);
+  const exec = await container.exec({
+    Cmd: ['/bin/sh', '-c', 'if command -v bash >/dev/null 2>&1; then exec bash -l; else exec sh -l; fi'],
+    AttachStdin: true,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: true,
+    User: options.user,
+    Env: ['TERM=xterm-256color'],
+  });
+
+  const stream = await exec.start({ hijack: true, stdin: true, Tty: true });
+
+  const resize = async (cols: number, rows: number) => {
+    await exec.resize({ w: cols, h: rows });
+  };
+
+  // The exec must be running before it can be resized
+  await resize(options.cols, options.rows).catch(() => {});
+
+  return {
+    stream,
+    resize,
+    exitCode: async () => {
+      const info = await exec.inspect();
+      return info.ExitCode ?? null;
+    },
+    close: () => {
+      stream.end();
+      stream.destroy();
+    },
+  };
+}
+
+export async function listImages(): Promise<ImageInfo[]> {
+  const [images, usage] = await Promise.all([
+    docker.listImages({ filters: { label: [IMAGE_LABEL] } }),
+    getImageUsage(),
+  ]);
+  return images.map((img) => ({
+    id: img.Id,
+    repoTags: img.RepoTags || [],
+    size: img.Size,
+    created: new Date(img.Created * 1000).toISOString(),
+    containerCount: usage.get(img.Id) || 0,
+    baseImage: img.Labels?.[BASE_IMAGE_LABEL],
+  }));
+}
+
+// Number of containers (in any state) created from each image ID
+export async function getImageUsage(): Promise<Map<string, number>> {
+  const containers = await docker.listContainers({ all: true });
+  const usage = new Map<string, number>();
+  for (const container of containers) {
+    usage.set(container.ImageID, (usage.get(container.ImageID) || 0) + 1);
+  }
+  return usage;
+}
+
+// ACM images carrying the given label, with the label's value
+export async function listImagesByLabel(label: string): Promise<Array<{ id: string; repoTags: string[]; value: string }>> {
+  const images = await docker.listImages({ filters: { label: [label] } });
+  return images.map((img) => ({
+    id: img.Id,
+    repoTags: img.RepoTags || [],
+    value: img.Labels?.[label] || '',
+  }));
+}
+
+// ACM images matching a label filter ("key" or "key=value"), with all their labels
+export async function findImages(labelFilter: string): Promise<Array<{
+  id: string;
+  repoTags: string[];
+  labels: Record<string, string>;
+  size: number;
+  created: string;
+}>> {
+  const images = await docker.listImages({ filters: { label: [IMAGE_LABEL, labelFilter] } });
   return images.map((img) => ({
     id: img.Id,
     repoTags: img.RepoTags || [],
+    labels: img.Labels || {},
     size: img.Size,
     created: new Date(img.Created * 1000).toISOString(),
   }));
@@ -147,6 +769,15 @@ export async function removeImage(id: string): Promise<void> {
   await image.remove({ force: true });
 }
 
+export async function getImageId(imageName: string): Promise<string | undefined> {
+  try {
+    const info = await docker.getImage(imageName).inspect();
+    return info.Id;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function imageHasLabel(imageName: string, label: string): Promise<boolean> {
   try {
     const image = docker.getImage(imageName);
@@ -201,17 +832,33 @@ export async function buildImage(dockerfile: string, tag: string): Promise<void>
   });
 }
 
+// Aborting the signal closes the connection, which makes the daemon stop
+// the build; intermediate containers are removed (forcerm)
 export async function buildImageWithLogs(
   dockerfile: string,
   tag: string,
-  onLog: (message: string) => void
+  onLog: (message: string) => void,
+  signal?: AbortSignal,
+  labels: Record<string, string> = {}
 ): Promise<void> {
   const tar = await createTarFromDockerfile(dockerfile);
 
   return new Promise((resolve, reject) => {
-    docker.buildImage(tar, { t: tag, labels: { [IMAGE_LABEL]: 'true' }, rm: true }, (err, stream) => {
+    if (signal?.aborted) {
+      reject(new Error('Build cancelled'));
+      return;
+    }
+
+    const buildOptions = {
+      t: tag,
+      labels: { ...labels, [IMAGE_LABEL]: 'true' },
+      rm: true,
+      forcerm: true,
+      abortSignal: signal,
+    };
+    docker.buildImage(tar, buildOptions, (err, stream) => {
       if (err) {
-        reject(err);
+        reject(signal?.aborted ? new Error('Build cancelled') : err);
         return;
       }
       if (!stream) {
@@ -219,6 +866,12 @@ export async function buildImageWithLogs(
         return;
       }
 
+      const onAbort = () => {
+        (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+        reject(new Error('Build cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       let buildError: string | null = null;
 
       stream.on('data', (chunk: Buffer) => {
@@ -241,6 +894,7 @@ export async function buildImageWithLogs(
       });
 
       docker.modem.followProgress(stream, (err) => {
+        signal?.removeEventListener('abort', onAbort);
         if (err) {
           reject(err);
         } else if (buildError) {
@@ -394,22 +1048,21 @@ function extractSshPortFromInspect(ports: Record<string, Array<{ HostPort: strin
   return null;
 }
 
-function extractVolumes(mounts: Docker.ContainerInfo['Mounts']): Array<{ name: string; mountPath: string }> {
-  return mounts
-    .filter((m) => m.Type === 'volume')
-    .map((m) => ({
-      name: m.Name || '',
-      mountPath: m.Destination,
-    }));
-}
-
-function extractVolumesFromInspect(mounts: Array<{ Type: string; Name?: string; Destination: string }>): Array<{ name: string; mountPath: string }> {
-  return mounts
-    .filter((m) => m.Type === 'volume')
-    .map((m) => ({
-      name: m.Name || '',
-      mountPath: m.Destination,
-    }));
+// Named Docker volumes, plus bind mounts of our local volume directories
+// (how createContainer attaches volumes)
+function extractVolumes(
+  mounts: Array<{ Type: string; Name?: string; Source: string; Destination: string }>,
+  volumesDir: string
+): Array<{ name: string; mountPath: string }> {
+  const volumes: Array<{ name: string; mountPath: string }> = [];
+  for (const m of mounts) {
+    if (m.Type === 'volume') {
+      volumes.push({ name: m.Name || '', mountPath: m.Destination });
+    } else if (m.Type === 'bind' && m.Source.startsWith(`${volumesDir}/`)) {
+      volumes.push({ name: m.Source.slice(volumesDir.length + 1), mountPath: m.Destination });
+    }
+  }
+  return volumes;
 }
 
 function extractPorts(ports: Docker.Port[]): Array<{ container: number; host: number }> {
@@ -0,0 +1,170 @@
+// Server-wide event bus: Docker daemon events and build tracker transitions
+// are published here and fanned out to SSE subscribers on /api/events
+
+import { EventEmitter } from 'events';
+import { docker } from './docker.js';
+import type { BuildStatus } from './build-tracker.js';
+import type { ContainerReadiness } from '../types/index.js';
+
+const ACM_LABEL = 'agent-container-management';
+const HISTORY_SIZE = 500; // Events kept for Last-Event-ID resume
+const RECONNECT_DELAY_MS = 5000;
+
+// Container actions that change what the UI shows. Exec, attach, health and
+// other chatter is dropped: the server runs execs constantly (key sync, host
+// keys, readiness probes, the reaper), and each event refetches the list.
+const CONTAINER_ACTIONS = new Set([
+  'create',
+  'start',
+  'restart',
+  'die',
+  'stop',
+  'destroy',
+  'rename',
+  'pause',
+  'unpause',
+]);
+
+export type ServerEvent =
+  | { type: 'container'; action: string; containerId: string; name: string; image?: string }
+  | { type: 'image'; action: string; imageId: string; name?: string }
+  | { type: 'build'; action: BuildStatus['status']; build: BuildStatus }
+  | { type: 'lifecycle'; action: 'expired' | 'idle'; containerId: string; name: string; outcome: 'stopped' | 'removed' }
+  | { type: 'host-keys'; action: 'updated'; containerId: string; name: string }
+  | { type: 'readiness'; action: ContainerReadiness; containerId: string; name: string };
+
+export interface PublishedEvent {
+  id: number;
+  time: string;
+  event: ServerEvent;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per connected client
+
+const history: PublishedEvent[] = [];
+let nextId = 1;
+
+export function publish(event: ServerEvent): PublishedEvent {
+  const published: PublishedEvent = {
+    id: nextId++,
+    time: new Date().toISOString(),
+    event,
+  };
+
+  history.push(published);
+  if (history.length > HISTORY_SIZE) {
+    history.shift();
+  }
+
+  emitter.emit('event', published);
+  return published;
+}
+
+export function subscribe(listener: (event: PublishedEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+// Events published after lastId, or null if some of them have already been
+// dropped from history (the client should then refetch everything)
+export function getEventsSince(lastId: number): PublishedEvent[] | null {
+  if (lastId >= nextId) {
+    // ID from a previous server process
+    return null;
+  }
+  const oldest = history[0];
+  if (oldest && lastId < oldest.id - 1) {
+    return null;
+  }
+  return history.filter((e) => e.id > lastId);
+}
+
+// Docker daemon event stream
+
+interface DockerEvent {
+  Type: string;
+  Action: string;
+  Actor: {
+    ID: string;
+    Attributes?: Record<string, string>;
+  };
+}
+
+let dockerStream: NodeJS.ReadableStream | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+
+export async function startDockerEventStream(): Promise<void> {
+  if (dockerStream) return;
+
+  try {
+    const stream = await docker.getEvents({
+      filters: {
+        label: [ACM_LABEL],
+        type: ['container', 'image'],
+      },
+    });
+    dockerStream = stream;
+
+    let buffer = '';
+    stream.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          handleDockerEvent(JSON.parse(line) as DockerEvent);
+        } catch {
+          // Ignore malformed lines
+        }
+      }
+    });
+
+    const onDisconnect = () => {
+      if (dockerStream !== stream) return;
+      dockerStream = null;
+      scheduleReconnect();
+    };
+    stream.on('end', onDisconnect);
+    stream.on('error', onDisconnect);
+  } catch {
+    // Docker not reachable yet
+    scheduleReconnect();
+  }
+}
+
+function scheduleReconnect(): void {
+  if (reconnectTimer) return;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    startDockerEventStream();
+  }, RECONNECT_DELAY_MS);
+}
+
+function handleDockerEvent(event: DockerEvent): void {
+  const attributes = event.Actor.Attributes || {};
+  // Some actions carry details after a colon (e.g. "exec_start: bash")
+  const action = event.Action.split(':')[0];
+
+  if (event.Type === 'container') {
+    if (!CONTAINER_ACTIONS.has(action)) return;
+    publish({
+      type: 'container',
+      action,
+      containerId: event.Actor.ID,
+      name: attributes.name || '',
+      image: attributes.image,
+    });
+  } else if (event.Type === 'image') {
+    publish({
+      type: 'image',
+      action,
+      imageId: event.Actor.ID,
+      name: attributes.name,
+    });
+  }
+}
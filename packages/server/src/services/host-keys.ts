@@ -0,0 +1,188 @@
+// Container SSH host keys. Images get their host keys when openssh-server is
+// installed, so every rebuild changes them. After each start the public host
+// keys are read from the container and stored by container name, and served
+// as a known_hosts file so clients can pin them instead of skipping host key
+// checks. With stableHostKeys on, each container name also gets its own
+// ed25519 host key, injected at start, so it keeps one identity across
+// rebuilds and recreates (and clones don't share their source's).
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdir, readFile, writeFile, rm, mkdtemp } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import * as dockerService from './docker.js';
+import * as events from './events.js';
+import { getGatewayHostKey } from './ssh-keys.js';
+import { getConfig } from './config.js';
+import type { ContainerInfo } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const STABLE_KEY_TYPE = 'ed25519';
+
+let unsubscribe: (() => void) | null = null;
+
+export function startHostKeySync(): void {
+  if (unsubscribe) return;
+  unsubscribe = events.subscribe(({ event }) => {
+    if (event.type === 'container' && event.action === 'start') {
+      syncHostKeys(event.containerId).catch((err) =>
+        console.error(`Failed to read SSH host keys from ${event.name}:`, err)
+      );
+    }
+  });
+}
+
+// Inject the stable host key if enabled, then record the container's public host keys
+export async function syncHostKeys(containerId: string): Promise<void> {
+  const container = await dockerService.getContainer(containerId);
+  if (!container || container.state !== 'running') {
+    return;
+  }
+
+  const config = await getConfig();
+  if (config.stableHostKeys) {
+    await injectStableHostKey(container);
+  }
+
+  const keys = await readContainerHostKeys(containerId);
+  if (keys.length === 0) {
+    return;
+  }
+
+  const dir = await getHostKeysDir();
+  await mkdir(dir, { recursive: true });
+  const path = join(dir, `${container.name}.pub`);
+  const previous = await readFile(path, 'utf-8').catch(() => '');
+  const content = keys.join('\n') + '\n';
+  if (content !== previous) {
+    await writeFile(path, content);
+    events.publish({ type: 'host-keys', action: 'updated', containerId, name: container.name });
+  }
+}
+
+export async function getHostKeys(name: string): Promise<string[]> {
+  const content = await readFile(join(await getHostKeysDir(), `${name}.pub`), 'utf-8').catch(() => '');
+  return content.split('\n').filter(Boolean);
+}
+
+// known_hosts lines for containers with an SSH port, under both the ssh
+// config alias and [localhost]:port. Stopped containers are listed under the
+// port they'll bind when started. With the SSH gateway on, the gateway's own
+// key is listed for its port and for containers reached through it.
+export async function renderKnownHosts(containers?: ContainerInfo[]): Promise<string> {
+  const { sshGateway, sshGatewayPort } = await getConfig();
+  const gatewayKey = sshGateway ? (await getGatewayHostKey()).publicKey.split(/\s+/).slice(0, 2).join(' ') : null;
+  const all = containers ?? (await dockerService.listContainers());
+  const list = (await Promise.all(all.map(async (container) => ({
+    container,
+    sshPort: await dockerService.getConfiguredSshPort(container),
+  }))))
+    .filter(({ sshPort }) => sshPort || gatewayKey)
+    .sort((a, b) => a.container.name.localeCompare(b.container.name));
+
+  const lines: string[] = gatewayKey ? [`[localhost]:${sshGatewayPort} ${gatewayKey}`] : [];
+  for (const { container, sshPort } of list) {
+    if (!sshPort) {
+      lines.push(`acm-${container.name} ${gatewayKey}`);
+      continue;
+    }
+    const hosts = `acm-${container.name},[localhost]:${sshPort}`;
+    for (const key of await getHostKeys(container.name)) {
+      lines.push(`${hosts} ${key}`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+// Forget a removed container's host keys, including its stable identity
+export async function deleteHostKeys(name: string): Promise<void> {
+  const dir = await getHostKeysDir();
+  await rm(join(dir, `${name}.pub`), { force: true });
+  await rm(join(dir, 'stable', name), { recursive: true, force: true });
+}
+
+// Public host keys as "<type> <base64>", comments dropped
+async function readContainerHostKeys(containerId: string): Promise<string[]> {
+  const result = await dockerService.execInContainer(containerId, [
+    '/bin/sh',
+    '-c',
+    'cat /etc/ssh/ssh_host_*_key.pub 2>/dev/null || true',
+  ]);
+  return result.output
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/).slice(0, 2).join(' '))
+    .filter((line) => line.startsWith('ssh-') || line.startsWith('ecdsa-'))
+    .sort();
+}
+
+async function injectStableHostKey(container: ContainerInfo): Promise<void> {
+  const { privateKey, publicKey } = await getOrCreateStableHostKey(container.name);
+
+  const installed = await dockerService.execInContainer(container.id, [
+    'cat',
+    `/etc/ssh/ssh_host_${STABLE_KEY_TYPE}_key.pub`,
+  ]);
+  if (installed.exitCode === 0 && sameKey(installed.output, publicKey)) {
+    return;
+  }
+
+  // sshd re-reads its host keys when it gets SIGHUP
+  const keyPath = `/etc/ssh/ssh_host_${STABLE_KEY_TYPE}_key`;
+  const script = [
+    'set -e',
+    'umask 077',
+    `printf '%s\\n' "$ACM_HOST_KEY" > ${keyPath}`,
+    `printf '%s\\n' "$ACM_HOST_PUBLIC_KEY" > ${keyPath}.pub`,
+    `chmod 644 ${keyPath}.pub`,
+    'kill -HUP "$(cat /run/sshd.pid 2>/dev/null || cat /var/run/sshd.pid 2>/dev/null || echo 1)"',
+  ].join('\n');
+
+  const result = await dockerService.execInContainer(container.id, ['/bin/sh', '-c', script], {
+    env: { ACM_HOST_KEY: privateKey.trim(), ACM_HOST_PUBLIC_KEY: publicKey.trim() },
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to install host key: ${result.output.trim() || `exit code ${result.exitCode}`}`);
+  }
+}
+
+async function getOrCreateStableHostKey(name: string): Promise<{ privateKey: string; publicKey: string }> {
+  const dir = join(await getHostKeysDir(), 'stable', name);
+  const keyPath = join(dir, `ssh_host_${STABLE_KEY_TYPE}_key`);
+
+  try {
+    return {
+      privateKey: await readFile(keyPath, 'utf-8'),
+      publicKey: await readFile(`${keyPath}.pub`, 'utf-8'),
+    };
+  } catch {
+    // Not generated yet
+  }
+
+  // Generate in a scratch directory so a half-written key is never picked up
+  const scratch = await mkdtemp(join(tmpdir(), 'acm-host-key-'));
+  try {
+    const scratchKey = join(scratch, 'key');
+    await execFileAsync('ssh-keygen', ['-q', '-t', STABLE_KEY_TYPE, '-f', scratchKey, '-N', '', '-C', `acm-${name}`]);
+    const privateKey = await readFile(scratchKey, 'utf-8');
+    const publicKey = await readFile(`${scratchKey}.pub`, 'utf-8');
+
+    await mkdir(dir, { recursive: true });
+    await writeFile(keyPath, privateKey, { mode: 0o600 });
+    await writeFile(`${keyPath}.pub`, publicKey);
+    return { privateKey, publicKey };
+  } finally {
+    await rm(scratch, { recursive: true, force: true });
+  }
+}
+
+function sameKey(a: string, b: string): boolean {
+  const body = (key: string) => key.trim().split(/\s+/).slice(0, 2).join(' ');
+  return body(a) === body(b);
+}
+
+async function getHostKeysDir(): Promise<string> {
+  const config = await getConfig();
+  return join(config.dataDirectory, 'host-keys');
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ContainerInfo } from '../types/index.js';
+
+// App keys in the order rotations generate them
+const appKeys = ['ssh-ed25519 KEY1 acm', 'ssh-ed25519 KEY2 acm', 'ssh-ed25519 KEY3 acm'];
+let generation = 0;
+let authorizedKeys: string[] = [];
+
+const container = {
+  id: 'c1',
+  name: 'agent',
+  state: 'running',
+  sshKeyMode: 'shared',
+  authorizedKeys: [],
+  includeAppKey: true,
+} as unknown as ContainerInfo;
+
+vi.mock('fs/promises', () => ({
+  // Rotating moves the private key aside, so the next getPublicKey makes a new one
+  rename: vi.fn(async () => {
+    generation++;
+  }),
+  rm: vi.fn(async () => {}),
+  readFile: vi.fn(async () => {
+    throw new Error('ENOENT');
+  }),
+  writeFile: vi.fn(async () => {}),
+  access: vi.fn(async () => {}),
+}));
+vi.mock('./config.js', () => ({
+  getConfig: async () => ({ sshGateway: false }),
+  getProjectRoot: () => '/nonexistent',
+}));
+vi.mock('./docker.js', () => ({
+  listContainers: vi.fn(async () => []),
+  getContainer: vi.fn(async () => container),
+}));
+vi.mock('./ssh-keys.js', () => ({
+  getPublicKey: vi.fn(async () => appKeys[generation]),
+  getPrivateKeyPath: vi.fn(async () => '/nonexistent/acm.pem'),
+  findGatewayClientPublicKey: vi.fn(async () => null),
+  readAuthorizedKeys: vi.fn(async () => authorizedKeys),
+  installAuthorizedKeys: vi.fn(async (_id: string, keys: string[]) => {
+    authorizedKeys = keys;
+  }),
+}));
+vi.mock('./authorized-keys.js', () => ({ getPublicKeys: vi.fn(async () => []) }));
+
+const { getRotationStatus, inGrace, nextRotationState, rotateAppKey, sameKeys, syncContainerKeys } = await import(
+  './key-rotation.js'
+);
+
+const HOUR = 3600_000;
+const bodies = () => authorizedKeys.map((key) => key.split(' ')[1]);
+
+describe('sameKeys', () => {
+  it('ignores order, duplicates and comments', () => {
+    expect(sameKeys(['ssh-ed25519 A one', 'ssh-rsa B'], ['ssh-rsa B two', 'ssh-ed25519 A', 'ssh-ed25519 A'])).toBe(true);
+  });
+
+  it('tells different key sets apart', () => {
+    expect(sameKeys(['ssh-ed25519 A'], ['ssh-ed25519 A', 'ssh-ed25519 B'])).toBe(false);
+    expect(sameKeys(['ssh-ed25519 A'], ['ssh-rsa A'])).toBe(false);
+    expect(sameKeys([], [])).toBe(true);
+  });
+});
+
+describe('nextRotationState', () => {
+  const rotatedAt = new Date('2026-01-01T00:00:00.000Z');
+
+  it('opens a grace window for the replaced key on the first rotation', () => {
+    expect(nextRotationState(null, 'ssh-ed25519 OLD', rotatedAt, 24)).toEqual({
+      rotatedAt: '2026-01-01T00:00:00.000Z',
+      graceUntil: '2026-01-02T00:00:00.000Z',
+      previousPublicKey: 'ssh-ed25519 OLD',
+      retiredPublicKeys: [],
+    });
+  });
+
+  it('retires the key the last rotation replaced', () => {
+    const first = nextRotationState(null, 'ssh-ed25519 K1', rotatedAt, 1);
+    const second = nextRotationState(first, 'ssh-ed25519 K2', new Date('2026-01-02T00:00:00.000Z'), 1);
+    const third = nextRotationState(second, 'ssh-ed25519 K3', new Date('2026-01-03T00:00:00.000Z'), 0);
+
+    expect(second.retiredPublicKeys).toEqual(['ssh-ed25519 K1']);
+    expect(third.retiredPublicKeys).toEqual(['ssh-ed25519 K1', 'ssh-ed25519 K2']);
+    expect(third.graceUntil).toBe(third.rotatedAt);
+  });
+});
+
+describe('rotating the app key', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the old key during the grace window, then revokes it for good', async () => {
+    authorizedKeys = [appKeys[0], 'ssh-ed25519 USER laptop'];
+
+    // Rotation 1: KEY1 -> KEY2, grace for an hour
+    const result = await rotateAppKey(1);
+    expect(result.graceUntil).toBe('2026-01-01T01:00:00.000Z');
+    expect((await getRotationStatus()).graceUntil).toBe('2026-01-01T01:00:00.000Z');
+    await syncContainerKeys(container.id);
+    expect(bodies()).toEqual(['KEY1', 'USER', 'KEY2']);
+
+    // Grace window over: KEY1 goes, other keys stay
+    await vi.advanceTimersByTimeAsync(HOUR + 1000);
+    expect((await getRotationStatus()).graceUntil).toBeUndefined();
+    await syncContainerKeys(container.id);
+    expect(bodies()).toEqual(['USER', 'KEY2']);
+
+    // Rotation 2: KEY2 -> KEY3 with no grace. A container started from an
+    // image still carrying KEY1 loses it, as a retired key.
+    authorizedKeys = [appKeys[0], 'ssh-ed25519 USER laptop', appKeys[1]];
+    await rotateAppKey(0);
+    await syncContainerKeys(container.id);
+    expect(bodies()).toEqual(['USER', 'KEY3']);
+  });
+
+  it('reports whether a state is still in its grace window', () => {
+    const state = nextRotationState(null, 'ssh-ed25519 OLD', new Date(), 1);
+    expect(inGrace(state)).toBe(true);
+    vi.advanceTimersByTime(HOUR);
+    expect(inGrace(state)).toBe(false);
+  });
+});
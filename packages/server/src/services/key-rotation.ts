@@ -0,0 +1,336 @@
+// Rotation of the app-wide SSH key, and keeping authorized_keys in
+// containers current. The old public key is baked into image layers, so
+// rather than rebuilding anything the new key is written into authorized_keys
+// by exec: right away for running containers, and whenever a container
+// starts for the rest. The old key stays accepted (and its private half on
+// disk) until the grace window ends, then it's removed the same way.
+// Containers with their own key or registered keys get their whole
+// authorized_keys written before they're first started and rewritten on
+// every start, which is also how a key deleted from the registry loses
+// access. While the SSH gateway is enabled, its login key is authorized
+// alongside the others.
+
+import { rename, rm, readFile, writeFile, access } from 'fs/promises';
+import { join, dirname } from 'path';
+import * as dockerService from './docker.js';
+import * as events from './events.js';
+import * as sshKeys from './ssh-keys.js';
+import * as authorizedKeys from './authorized-keys.js';
+import { getConfig, getProjectRoot } from './config.js';
+import type { ContainerInfo, KeyRotationResult, KeyRotationStatus } from '../types/index.js';
+
+const ROTATION_FILE = join(getProjectRoot(), 'data', 'ssh-keys', 'rotation.json');
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout's limit (~24.8 days)
+
+export interface RotationState {
+  rotatedAt: string;
+  graceUntil: string;
+  previousPublicKey: string;
+  retiredPublicKeys: string[]; // Keys from earlier rotations, never accepted again
+}
+
+let state: RotationState | null | undefined; // undefined until loaded
+let graceTimer: NodeJS.Timeout | null = null;
+let unsubscribe: (() => void) | null = null;
+
+// Sync keys into containers as they start, and finish a grace window left
+// open by a previous run
+export async function startKeySync(): Promise<void> {
+  if (unsubscribe) return;
+  unsubscribe = events.subscribe(({ event }) => {
+    if (event.type === 'container' && event.action === 'start') {
+      syncContainerKeys(event.containerId).catch((err) =>
+        console.error(`Failed to sync SSH key into ${event.name}:`, err)
+      );
+    }
+  });
+  scheduleGraceExpiry(await loadState());
+}
+
+export async function getRotationStatus(): Promise<KeyRotationStatus> {
+  const current = await loadState();
+  return {
+    rotatedAt: current?.rotatedAt,
+    graceUntil: current && inGrace(current) ? current.graceUntil : undefined,
+  };
+}
+
+export async function rotateAppKey(graceHours: number): Promise<KeyRotationResult> {
+  const last = await loadState();
+  const previousPublicKey = await sshKeys.getPublicKey();
+  const privateKeyPath = await sshKeys.getPrivateKeyPath();
+  const previousKeyPath = getPreviousKeyPath(privateKeyPath);
+
+  // Keep the old private key until the grace window ends (replacing any from
+  // an earlier rotation); getPublicKey then generates a new one in its place
+  await rename(privateKeyPath, previousKeyPath);
+  try {
+    await sshKeys.getPublicKey();
+  } catch (error) {
+    await rename(previousKeyPath, privateKeyPath);
+    throw error;
+  }
+
+  const next = nextRotationState(last, previousPublicKey, new Date(), graceHours);
+  await saveState(next);
+  scheduleGraceExpiry(next);
+
+  const result: KeyRotationResult = {
+    rotatedAt: next.rotatedAt,
+    graceUntil: next.graceUntil,
+    updated: [],
+    pending: [],
+    failed: [],
+  };
+
+  for (const container of await dockerService.listContainers()) {
+    if (!usesAppKey(container)) continue;
+    if (container.state !== 'running') {
+      result.pending.push(container.name);
+      continue;
+    }
+    try {
+      await syncContainerKeys(container.id);
+      result.updated.push(container.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.failed.push({ name: container.name, error: message });
+    }
+  }
+
+  console.log(
+    `Rotated SSH key: ${result.updated.length} updated, ${result.pending.length} pending, ${result.failed.length} failed`
+  );
+  return result;
+}
+
+// The state after rotating away from previousPublicKey: it's accepted until
+// the new grace window ends, and the key an earlier rotation replaced is
+// retired for good
+export function nextRotationState(
+  last: RotationState | null,
+  previousPublicKey: string,
+  rotatedAt: Date,
+  graceHours: number
+): RotationState {
+  return {
+    rotatedAt: rotatedAt.toISOString(),
+    graceUntil: new Date(rotatedAt.getTime() + graceHours * 3600_000).toISOString(),
+    previousPublicKey,
+    retiredPublicKeys: last ? [...(last.retiredPublicKeys || []), last.previousPublicKey] : [],
+  };
+}
+
+// Bring a running container's authorized_keys up to date. Containers with
+// their own key or registered keys get exactly the keys they should trust;
+// for the rest only the app key and gateway key are swapped in (the previous
+// app key still accepted during the grace window) and other keys are left alone.
+export async function syncContainerKeys(containerId: string): Promise<void> {
+  const container = await dockerService.getContainer(containerId);
+  if (!container || container.state !== 'running') {
+    return;
+  }
+
+  const current = await loadState();
+  const gatewayKey = (await getConfig()).sshGateway ? (await sshKeys.getGatewayClientKey()).publicKey : null;
+
+  if (isManaged(container)) {
+    const wanted = await getManagedKeys(container, gatewayKey);
+    const existing = await sshKeys.readAuthorizedKeys(containerId);
+    if (!sameKeys(existing, wanted)) {
+      await sshKeys.installAuthorizedKeys(containerId, wanted);
+    }
+    return;
+  }
+
+  const required = gatewayKey ? [gatewayKey] : [];
+  const revoked = new Set<string>();
+  // Never rotated: images already carry the current key
+  if (current) {
+    required.push(await sshKeys.getPublicKey());
+    for (const key of current.retiredPublicKeys || []) {
+      revoked.add(keyBody(key));
+    }
+    if (!inGrace(current)) {
+      revoked.add(keyBody(current.previousPublicKey));
+    }
+  }
+  if (!gatewayKey) {
+    const disabledGatewayKey = await sshKeys.findGatewayClientPublicKey();
+    if (disabledGatewayKey) revoked.add(keyBody(disabledGatewayKey));
+  }
+  if (required.length === 0 && revoked.size === 0) return;
+
+  const keys = await sshKeys.readAuthorizedKeys(containerId);
+  const keep = keys.filter((key) => !revoked.has(keyBody(key)));
+  const missing = required.filter((key) => !keep.some((k) => keyBody(k) === keyBody(key)));
+
+  if (missing.length === 0 && keep.length === keys.length) {
+    return;
+  }
+  await sshKeys.installAuthorizedKeys(containerId, [...keep, ...missing]);
+}
+
+// Give a container with its own key or registered keys exactly those before
+// it first starts. Its image still carries the app key, which would otherwise
+// be accepted until the first sync - or for good if that sync fails or Docker
+// restarts the container on its own. Others keep the keys from their image.
+export async function seedContainerKeys(containerId: string): Promise<void> {
+  const container = await dockerService.getContainer(containerId);
+  if (!container || !isManaged(container)) {
+    return;
+  }
+  const gatewayKey = (await getConfig()).sshGateway ? (await sshKeys.getGatewayClientKey()).publicKey : null;
+  await sshKeys.seedAuthorizedKeys(containerId, await getManagedKeys(container, gatewayKey));
+}
+
+// Public keys a user may log in to the container with: its generated key
+// (unless excluded) and its registered keys. The gateway's own key isn't one.
+export async function getTrustedKeys(container: ContainerInfo): Promise<string[]> {
+  const generated = !container.includeAppKey
+    ? []
+    : container.sshKeyMode === 'container'
+      ? [await sshKeys.getContainerPublicKey(container.name)]
+      : await getAcceptedAppKeys(await loadState());
+  return [...generated, ...(await authorizedKeys.getPublicKeys(container.authorizedKeys))];
+}
+
+// Re-sync every running container, e.g. after the gateway is switched on or off
+export async function syncRunningContainers(): Promise<void> {
+  for (const container of await dockerService.listContainers()) {
+    if (container.state === 'running') {
+      await syncContainerKeys(container.id).catch((err) =>
+        console.error(`Failed to update SSH keys in ${container.name}:`, err)
+      );
+    }
+  }
+}
+
+// Containers whose labels list a registered key name, whether or not the
+// key still exists
+export async function listContainersUsingKey(name: string): Promise<ContainerInfo[]> {
+  return (await dockerService.listContainers()).filter((c) => c.authorizedKeys.includes(name));
+}
+
+// Re-sync running containers that trust a registered key, e.g. after it was
+// deleted; stopped ones catch up when they next start
+export async function syncContainersUsingKey(name: string): Promise<void> {
+  for (const container of await listContainersUsingKey(name)) {
+    if (container.state === 'running') {
+      await syncContainerKeys(container.id).catch((err) =>
+        console.error(`Failed to update SSH keys in ${container.name}:`, err)
+      );
+    }
+  }
+}
+
+// The generated key isn't the only one in authorized_keys, so it's written out whole
+function isManaged(container: ContainerInfo): boolean {
+  return container.sshKeyMode === 'container' || container.authorizedKeys.length > 0 || !container.includeAppKey;
+}
+
+async function getManagedKeys(container: ContainerInfo, gatewayKey: string | null): Promise<string[]> {
+  return [...(await getTrustedKeys(container)), ...(gatewayKey ? [gatewayKey] : [])];
+}
+
+function usesAppKey(container: ContainerInfo): boolean {
+  return container.sshKeyMode !== 'container' && container.includeAppKey;
+}
+
+async function getAcceptedAppKeys(current: RotationState | null): Promise<string[]> {
+  const publicKey = await sshKeys.getPublicKey();
+  return current && inGrace(current) ? [publicKey, current.previousPublicKey] : [publicKey];
+}
+
+// Whether two authorized_keys lists hold the same keys, ignoring order,
+// duplicates and comments
+export function sameKeys(a: string[], b: string[]): boolean {
+  const setA = new Set(a.map(keyBody));
+  const setB = new Set(b.map(keyBody));
+  return setA.size === setB.size && [...setA].every((key) => setB.has(key));
+}
+
+// Once the grace window closes, drop the old key from running containers;
+// stopped ones lose it when they next start
+async function expireGrace(): Promise<void> {
+  const current = await loadState();
+  if (!current) return;
+
+  await rm(getPreviousKeyPath(await sshKeys.getPrivateKeyPath()), { force: true });
+
+  for (const container of await dockerService.listContainers()) {
+    if (container.state === 'running' && usesAppKey(container)) {
+      await syncContainerKeys(container.id).catch((err) =>
+        console.error(`Failed to remove the previous SSH key from ${container.name}:`, err)
+      );
+    }
+  }
+  console.log('SSH key grace window ended; previous key removed');
+}
+
+function scheduleGraceExpiry(current: RotationState | null): void {
+  if (graceTimer) {
+    clearTimeout(graceTimer);
+    graceTimer = null;
+  }
+  if (!current) return;
+
+  const remaining = Date.parse(current.graceUntil) - Date.now();
+  // A stale previous key file means the last expiry didn't run
+  if (remaining <= 0) {
+    hasPreviousKey().then((stale) => {
+      if (stale) {
+        expireGrace().catch((err) => console.error('Failed to end SSH key grace window:', err));
+      }
+    });
+    return;
+  }
+
+  graceTimer = setTimeout(() => {
+    graceTimer = null;
+    if (remaining > MAX_TIMER_MS) {
+      scheduleGraceExpiry(current);
+      return;
+    }
+    expireGrace().catch((err) => console.error('Failed to end SSH key grace window:', err));
+  }, Math.min(remaining, MAX_TIMER_MS));
+}
+
+export function inGrace(current: RotationState): boolean {
+  return Date.parse(current.graceUntil) > Date.now();
+}
+
+// Key type and data, without the trailing comment
+function keyBody(key: string): string {
+  return key.trim().split(/\s+/).slice(0, 2).join(' ');
+}
+
+function getPreviousKeyPath(privateKeyPath: string): string {
+  return join(dirname(privateKeyPath), 'acm.previous.pem');
+}
+
+async function hasPreviousKey(): Promise<boolean> {
+  try {
+    await access(getPreviousKeyPath(await sshKeys.getPrivateKeyPath()));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadState(): Promise<RotationState | null> {
+  if (state !== undefined) {
+    return state;
+  }
+  try {
+    state = JSON.parse(await readFile(ROTATION_FILE, 'utf-8')) as RotationState;
+  } catch {
+    state = null;
+  }
+  return state;
+}
+
+async function saveState(next: RotationState): Promise<void> {
+  state = next;
+  await writeFile(ROTATION_FILE, JSON.stringify(next, null, 2));
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fromLifecycleLabels, renewLifecycleLabels, toLifecycleLabels } from './lifecycle.js';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('toLifecycleLabels', () => {
+  it('fixes the TTL deadline at creation', () => {
+    expect(toLifecycleLabels({ ttl: 3600 })).toEqual({
+      'acm.ttl': '3600',
+      'acm.expires-at': '2026-01-01T01:00:00.000Z',
+      'acm.expiry-action': 'stop',
+    });
+  });
+
+  it('records the idle timeout and expiry action', () => {
+    expect(toLifecycleLabels({ idleTimeout: 600, expiryAction: 'remove' })).toEqual({
+      'acm.idle-timeout': '600',
+      'acm.expiry-action': 'remove',
+    });
+  });
+
+  it('adds nothing without a TTL or idle timeout', () => {
+    expect(toLifecycleLabels({ expiryAction: 'remove' })).toEqual({});
+  });
+});
+
+describe('fromLifecycleLabels', () => {
+  it('reads back what toLifecycleLabels wrote', () => {
+    expect(fromLifecycleLabels(toLifecycleLabels({ ttl: 60, idleTimeout: 30, expiryAction: 'remove' }))).toEqual({
+      ttl: 60,
+      expiresAt: '2026-01-01T00:01:00.000Z',
+      idleTimeout: 30,
+      action: 'remove',
+    });
+  });
+
+  it('ignores containers without lifecycle labels', () => {
+    expect(fromLifecycleLabels({})).toBeUndefined();
+    expect(fromLifecycleLabels(undefined)).toBeUndefined();
+    expect(fromLifecycleLabels({ 'acm.expiry-action': 'remove' })).toBeUndefined();
+  });
+
+  it('treats malformed numbers as unset and unknown actions as stop', () => {
+    expect(fromLifecycleLabels({ 'acm.ttl': 'soon', 'acm.idle-timeout': '120', 'acm.expiry-action': 'explode' })).toEqual({
+      ttl: undefined,
+      expiresAt: undefined,
+      idleTimeout: 120,
+      action: 'stop',
+    });
+  });
+});
+
+describe('renewLifecycleLabels', () => {
+  it('starts a new TTL from now', () => {
+    const labels = { 'acm.ttl': '60', 'acm.expires-at': '2025-06-01T00:00:00.000Z', 'other': 'kept' };
+    expect(renewLifecycleLabels(labels)).toEqual({ ...labels, 'acm.expires-at': '2026-01-01T00:01:00.000Z' });
+  });
+
+  it('leaves labels without a TTL alone', () => {
+    const labels = { 'acm.idle-timeout': '60' };
+    expect(renewLifecycleLabels(labels)).toBe(labels);
+  });
+});
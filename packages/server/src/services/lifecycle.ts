@@ -0,0 +1,55 @@
+// TTL and idle-timeout settings live on the container as labels so they
+// survive server restarts and carry over when a container is recreated
+
+import type { ContainerLifecycle, CreateContainerRequest } from '../types/index.js';
+
+const TTL_LABEL = 'acm.ttl';
+const EXPIRES_AT_LABEL = 'acm.expires-at';
+const IDLE_TIMEOUT_LABEL = 'acm.idle-timeout';
+const EXPIRY_ACTION_LABEL = 'acm.expiry-action';
+
+type LifecycleOptions = Pick<CreateContainerRequest, 'ttl' | 'idleTimeout' | 'expiryAction'>;
+
+// Labels for a container created now; the TTL deadline is fixed at creation
+export function toLifecycleLabels(options: LifecycleOptions): Record<string, string> {
+  const labels: Record<string, string> = {};
+  if (options.ttl) {
+    labels[TTL_LABEL] = String(options.ttl);
+    labels[EXPIRES_AT_LABEL] = new Date(Date.now() + options.ttl * 1000).toISOString();
+  }
+  if (options.idleTimeout) {
+    labels[IDLE_TIMEOUT_LABEL] = String(options.idleTimeout);
+  }
+  if (labels[TTL_LABEL] || labels[IDLE_TIMEOUT_LABEL]) {
+    labels[EXPIRY_ACTION_LABEL] = options.expiryAction || 'stop';
+  }
+  return labels;
+}
+
+export function fromLifecycleLabels(labels: Record<string, string> = {}): ContainerLifecycle | undefined {
+  const ttl = parseInt(labels[TTL_LABEL], 10) || undefined;
+  const idleTimeout = parseInt(labels[IDLE_TIMEOUT_LABEL], 10) || undefined;
+  if (!ttl && !idleTimeout) {
+    return undefined;
+  }
+
+  return {
+    ttl,
+    expiresAt: labels[EXPIRES_AT_LABEL],
+    idleTimeout,
+    action: labels[EXPIRY_ACTION_LABEL] === 'remove' ? 'remove' : 'stop',
+  };
+}
+
+// Copies of a container (clones) start their own TTL instead of inheriting
+// the source's deadline
+export function renewLifecycleLabels(labels: Record<string, string>): Record<string, string> {
+  const lifecycle = fromLifecycleLabels(labels);
+  if (!lifecycle?.ttl) {
+    return labels;
+  }
+  return {
+    ...labels,
+    [EXPIRES_AT_LABEL]: new Date(Date.now() + lifecycle.ttl * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,54 @@
+// User-defined tags and notes, stored as container labels. Each tag gets its
+// own label ("acm.tag.<tag>=true") so Docker label filters (and bulk
+// selectors) can match on it. Removed tags are blanked rather than dropped:
+// a recreated container inherits labels from its snapshot image, and only a
+// label set on the container itself can override those.
+
+import type { CreateContainerRequest } from '../types/index.js';
+
+const TAG_LABEL_PREFIX = 'acm.tag.';
+const NOTES_LABEL = 'acm.notes';
+
+type Metadata = Pick<CreateContainerRequest, 'tags' | 'notes'>;
+
+export function tagLabel(tag: string): string {
+  return `${TAG_LABEL_PREFIX}${tag}`;
+}
+
+export function toMetadataLabels(metadata: Metadata): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const tag of new Set(metadata.tags || [])) {
+    labels[tagLabel(tag)] = 'true';
+  }
+  if (metadata.notes) {
+    labels[NOTES_LABEL] = metadata.notes;
+  }
+  return labels;
+}
+
+export function fromMetadataLabels(labels: Record<string, string> = {}): { tags: string[]; notes?: string } {
+  const tags = Object.keys(labels)
+    .filter((key) => key.startsWith(TAG_LABEL_PREFIX) && labels[key] === 'true')
+    .map((key) => key.slice(TAG_LABEL_PREFIX.length))
+    .sort();
+  return { tags, notes: labels[NOTES_LABEL] || undefined };
+}
+
+// Replace the tags and/or notes in a full label set; fields left undefined
+// keep their current value
+export function applyMetadata(labels: Record<string, string>, updates: Metadata): Record<string, string> {
+  const next = { ...labels };
+
+  if (updates.tags !== undefined) {
+    for (const key of Object.keys(next)) {
+      if (key.startsWith(TAG_LABEL_PREFIX)) {
+        next[key] = '';
+      }
+    }
+  }
+  if (updates.notes !== undefined) {
+    next[NOTES_LABEL] = '';
+  }
+
+  return { ...next, ...toMetadataLabels(updates) };
+}
@@ -0,0 +1,199 @@
+// Container readiness. A started container isn't usable until sshd is up:
+// it may still be generating host keys, or have crashed on a broken image.
+// After each start the container is probed until sshd answers with its
+// banner on the mapped port (or, if configured, a health command exits 0
+// through exec), and the outcome is kept in memory for ContainerInfo.
+
+import * as dockerService from './docker.js';
+import * as events from './events.js';
+import { getConfig } from './config.js';
+import { readSshBanner } from '../utils/port.js';
+import type { ContainerInfo, ContainerReadiness } from '../types/index.js';
+
+const PROBE_INTERVAL_MS = 1000;
+// Health commands run through exec, which is far heavier than reading a
+// banner, so they back off between attempts up to this
+const MAX_HEALTH_INTERVAL_MS = 8000;
+const BANNER_TIMEOUT_MS = 2000;
+const DIAGNOSTIC_LOG_LINES = 50;
+
+export interface ReadinessResult {
+  readiness: Exclude<ContainerReadiness, 'starting'>;
+  error?: string; // Why the container is unhealthy
+}
+
+const results = new Map<string, { readiness: ContainerReadiness; error?: string }>();
+const inflight = new Map<string, Promise<ReadinessResult>>();
+
+let unsubscribe: (() => void) | null = null;
+
+// Probe containers as they start, and the ones already running
+export async function startReadinessProbes(): Promise<void> {
+  if (unsubscribe) return;
+  unsubscribe = events.subscribe(({ event }) => {
+    if (event.type !== 'container') return;
+    if (event.action === 'start') {
+      waitForReady(event.containerId).catch((err) =>
+        console.error(`Readiness probe failed for ${event.name}:`, err)
+      );
+    } else if (event.action === 'die' || event.action === 'destroy') {
+      results.delete(event.containerId);
+    }
+  });
+
+  const running = await dockerService.listContainers().catch(() => []);
+  for (const container of running) {
+    if (container.state === 'running') {
+      waitForReady(container.id).catch(() => {});
+    }
+  }
+}
+
+// Add the latest probe outcome to a container's info
+export function withReadiness(container: ContainerInfo): ContainerInfo {
+  const result = container.state === 'running' ? results.get(container.id) : undefined;
+  if (!result) return container;
+  return { ...container, readiness: result.readiness, readinessError: result.error };
+}
+
+// Probe until the container is ready or readinessTimeout passes. Concurrent
+// callers for one container share a probe; a caller's signal only stops its
+// own wait, and the probe carries on for the others.
+export function waitForReady(containerId: string, signal?: AbortSignal): Promise<ReadinessResult> {
+  let probe = inflight.get(containerId);
+  if (!probe) {
+    probe = runProbe(containerId).finally(() => inflight.delete(containerId));
+    inflight.set(containerId, probe);
+  }
+  return signal ? withSignal(probe, signal) : probe;
+}
+
+// Process state and recent output, for a build log or error report
+export async function collectDiagnostics(containerId: string): Promise<string> {
+  const lines: string[] = [];
+
+  const state = await dockerService.getContainerProcessState(containerId);
+  if (state) {
+    const details = [`status ${state.status}`];
+    if (!state.running) details.push(`exit code ${state.exitCode}`);
+    if (state.oomKilled) details.push('killed for exceeding its memory limit');
+    if (state.error) details.push(state.error);
+    lines.push(`Container ${details.join(', ')}`);
+  }
+
+  const output: string[] = [];
+  await dockerService
+    .streamContainerLogs(containerId, { tail: DIAGNOSTIC_LOG_LINES }, (line) => output.push(line.text))
+    .catch(() => {});
+  if (output.length > 0) {
+    lines.push(`Last ${output.length} lines of container output:`, ...output);
+  } else {
+    lines.push('No container output');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function withSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new Error('Readiness check cancelled'));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Readiness check cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function runProbe(containerId: string): Promise<ReadinessResult> {
+  const container = await dockerService.getContainer(containerId);
+  if (!container || container.state !== 'running') {
+    return { readiness: 'unhealthy', error: 'Container is not running' };
+  }
+
+  setResult(container, { readiness: 'starting' });
+  const config = await getConfig();
+  const deadline = Date.now() + config.readinessTimeout * 1000;
+  const healthCommand = config.healthCommand.trim();
+
+  let lastError = 'Readiness probe did not run';
+  let interval = PROBE_INTERVAL_MS;
+  for (;;) {
+    const state = await dockerService.getContainerProcessState(containerId);
+    if (!state?.running) {
+      return setResult(container, {
+        readiness: 'unhealthy',
+        error: state ? `Container exited with code ${state.exitCode}` : 'Container was removed',
+      });
+    }
+
+    const failure = healthCommand
+      ? await checkHealthCommand(containerId, healthCommand)
+      : await checkSshBanner(container);
+    if (failure === null) {
+      return setResult(container, { readiness: 'ready' });
+    }
+    lastError = failure;
+
+    if (Date.now() >= deadline) {
+      return setResult(container, {
+        readiness: 'unhealthy',
+        error: `Not ready after ${config.readinessTimeout}s: ${lastError}`,
+      });
+    }
+    // Take one last look at the deadline rather than overshooting it
+    await new Promise((resolve) => setTimeout(resolve, Math.min(interval, deadline - Date.now())));
+    if (healthCommand) {
+      interval = Math.min(interval * 2, MAX_HEALTH_INTERVAL_MS);
+    }
+  }
+}
+
+// null when sshd answered, otherwise what went wrong. Containers reached
+// through the SSH gateway have no host port and are probed directly.
+async function checkSshBanner(container: ContainerInfo): Promise<string | null> {
+  let target: { host: string; port: number };
+  if (container.sshPort) {
+    target = { host: '127.0.0.1', port: container.sshPort };
+  } else {
+    const address = await dockerService.getContainerAddress(container.id);
+    if (!address) {
+      return 'Container has no address on a Docker network';
+    }
+    target = { host: address, port: 22 };
+  }
+
+  const banner = await readSshBanner(target.port, BANNER_TIMEOUT_MS, target.host);
+  if (banner?.startsWith('SSH-')) {
+    return null;
+  }
+  const where = `${target.host}:${target.port}`;
+  return banner ? `Unexpected response on ${where}: ${banner.slice(0, 80)}` : `No SSH banner on ${where}`;
+}
+
+async function checkHealthCommand(containerId: string, command: string): Promise<string | null> {
+  try {
+    const result = await dockerService.execInContainer(containerId, ['/bin/sh', '-c', command]);
+    if (result.exitCode === 0) {
+      return null;
+    }
+    const output = result.output.trim().split('\n').pop()?.slice(0, 200);
+    return `Health command exited with code ${result.exitCode}${output ? `: ${output}` : ''}`;
+  } catch (error) {
+    return `Health command failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+function setResult(
+  container: ContainerInfo,
+  result: { readiness: ContainerReadiness; error?: string }
+): ReadinessResult {
+  const previous = results.get(container.id);
+  results.set(container.id, result);
+  if (previous?.readiness !== result.readiness) {
+    events.publish({ type: 'readiness', action: result.readiness, containerId: container.id, name: container.name });
+  }
+  return result as ReadinessResult;
+}
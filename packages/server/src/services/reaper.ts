@@ -0,0 +1,167 @@
+// Background sweep that stops (or removes) containers whose TTL has passed,
+// or that sat idle - no SSH sessions, no terminal open, no CPU use - for
+// longer than their idle timeout
+
+import * as dockerService from './docker.js';
+import * as events from './events.js';
+import { removeContainerAndKey } from './ssh-keys.js';
+import type { ContainerInfo } from '../types/index.js';
+
+const SWEEP_INTERVAL_MS = 30_000;
+const IDLE_CPU_PERCENT = 2; // Below this a container counts as idle
+
+// Last time each running container showed activity (starting counts)
+const lastActive = new Map<string, number>();
+// Browser terminal sessions per container, reported by the terminal route
+const terminalSessions = new Map<string, number>();
+let timer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+export function startReaper(): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    sweep().catch((err) => console.error('Container reaper sweep failed:', err));
+  }, SWEEP_INTERVAL_MS);
+
+  events.subscribe(({ event }) => {
+    if (event.type === 'container' && event.action === 'start') {
+      lastActive.set(event.containerId, Date.now());
+    }
+  });
+  seedStartTimes().catch((err) => console.error('Container reaper could not read start times:', err));
+}
+
+// Containers already running when the server starts have been idle at most
+// since they started
+async function seedStartTimes(): Promise<void> {
+  const containers = await dockerService.listContainers();
+  for (const container of containers) {
+    if (container.state !== 'running' || !container.lifecycle?.idleTimeout || lastActive.has(container.id)) {
+      continue;
+    }
+    const startedAt = Date.parse((await dockerService.getContainerProcessState(container.id))?.startedAt ?? '');
+    if (!Number.isNaN(startedAt) && !lastActive.has(container.id)) {
+      lastActive.set(container.id, startedAt);
+    }
+  }
+}
+
+// Keep a container from going idle while a terminal is attached; returns
+// a function that releases the hold
+export function holdActive(id: string): () => void {
+  terminalSessions.set(id, (terminalSessions.get(id) || 0) + 1);
+  lastActive.set(id, Date.now());
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (terminalSessions.get(id) || 1) - 1;
+    if (remaining > 0) {
+      terminalSessions.set(id, remaining);
+    } else {
+      terminalSessions.delete(id);
+    }
+    lastActive.set(id, Date.now());
+  };
+}
+
+// When a running container will be stopped for idleness if nothing happens
+export function getIdleStopAt(container: ContainerInfo): string | undefined {
+  const idleTimeout = container.lifecycle?.idleTimeout;
+  if (!idleTimeout || container.state !== 'running') {
+    return undefined;
+  }
+  const since = lastActive.get(container.id) ?? Date.now();
+  return new Date(since + idleTimeout * 1000).toISOString();
+}
+
+async function sweep(): Promise<void> {
+  if (sweeping) return; // Stats readings can be slow with many containers
+  sweeping = true;
+
+  try {
+    const containers = await dockerService.listContainers();
+    const running = new Set(containers.filter((c) => c.state === 'running').map((c) => c.id));
+
+    // Forget containers that stopped or were paused; resuming begins a fresh idle window
+    for (const id of lastActive.keys()) {
+      if (!running.has(id)) {
+        lastActive.delete(id);
+      }
+    }
+
+    const now = Date.now();
+    for (const container of containers) {
+      const lifecycle = container.lifecycle;
+      if (!lifecycle) continue;
+
+      if (lifecycle.expiresAt && Date.parse(lifecycle.expiresAt) <= now) {
+        // Stopped containers only need reaping when they're to be removed.
+        // One started again after its deadline was started by hand, after
+        // it had been reaped, and is left running.
+        const live = running.has(container.id) || container.state === 'paused';
+        if (lifecycle.action === 'remove' || (live && (await startedBefore(container.id, lifecycle.expiresAt)))) {
+          await reap(container, 'expired');
+        }
+        continue;
+      }
+
+      if (lifecycle.idleTimeout && running.has(container.id)) {
+        if (!lastActive.has(container.id) || (await isActive(container.id))) {
+          lastActive.set(container.id, now);
+        } else if (now - lastActive.get(container.id)! >= lifecycle.idleTimeout * 1000) {
+          await reap(container, 'idle');
+        }
+      }
+    }
+  } finally {
+    sweeping = false;
+  }
+}
+
+async function startedBefore(id: string, deadline: string): Promise<boolean> {
+  const state = await dockerService.getContainerProcessState(id);
+  return !!state && Date.parse(state.startedAt) < Date.parse(deadline);
+}
+
+async function isActive(id: string): Promise<boolean> {
+  if (terminalSessions.has(id)) {
+    return true;
+  }
+
+  try {
+    if ((await dockerService.countSshSessions(id)) > 0) {
+      return true;
+    }
+    const stats = await dockerService.getContainerStats(id);
+    return stats.cpuPercent >= IDLE_CPU_PERCENT;
+  } catch {
+    // Can't tell (container went away mid-sweep); don't reap on a guess
+    return true;
+  }
+}
+
+async function reap(container: ContainerInfo, reason: 'expired' | 'idle'): Promise<void> {
+  const action = container.lifecycle!.action;
+
+  try {
+    if (action === 'remove') {
+      await removeContainerAndKey(container);
+    } else {
+      await dockerService.stopContainer(container.id);
+    }
+    lastActive.delete(container.id);
+
+    console.log(`Reaper: ${action === 'remove' ? 'removed' : 'stopped'} ${reason} container ${container.name}`);
+    events.publish({
+      type: 'lifecycle',
+      action: reason,
+      containerId: container.id,
+      name: container.name,
+      outcome: action === 'remove' ? 'removed' : 'stopped',
+    });
+  } catch (err) {
+    console.error(`Reaper failed to ${action} container ${container.name}:`, err);
+  }
+}
@@ -0,0 +1,213 @@
+// Recreate a container from an image (a fresh snapshot for reconfigure, or a
+// chosen snapshot for restore) while keeping its name, env, labels and
+// restart policy. The old container is kept aside until the new one starts,
+// and restored if it doesn't.
+
+import * as dockerService from './docker.js';
+import * as snapshots from './snapshots.js';
+import { applyMetadata } from './metadata.js';
+import { seedContainerKeys, syncContainerKeys } from './key-rotation.js';
+import { getConfig } from './config.js';
+import { findAvailableSshPort } from '../utils/port.js';
+import type {
+  ContainerInfo,
+  ResourceLimits,
+  SnapshotInfo,
+  UpdateContainerMetadataRequest,
+} from '../types/index.js';
+
+// Automatic snapshots kept per container; older ones are pruned after each reconfigure
+const RECONFIGURE_SNAPSHOTS_KEPT = 3;
+
+export interface ReconfigureOptions {
+  volumes?: Array<{ name: string; mountPath: string }>;
+  ports?: Array<{ container: number; host: number }>;
+  resources?: ResourceLimits;
+}
+
+interface RecreateOptions extends ReconfigureOptions {
+  metadata?: UpdateContainerMetadataRequest; // Tags and notes to replace
+  keepStopped?: boolean; // Leave a stopped container stopped instead of starting the new one
+}
+
+// Snapshot the filesystem first so nothing outside mounted volumes is lost
+export async function reconfigureContainer(container: ContainerInfo, options: ReconfigureOptions): Promise<ContainerInfo> {
+  const info = await recreateContainer(container, options, async () => {
+    const snapshot = await snapshots.createSnapshot(container, { reason: 'reconfigure' });
+    return snapshot.image;
+  });
+
+  await snapshots.pruneSnapshots(container.name, 'reconfigure', RECONFIGURE_SNAPSHOTS_KEPT).catch((err) =>
+    console.error(`Failed to prune snapshots of ${container.name}:`, err)
+  );
+  return info;
+}
+
+// Roll a container back to a snapshot, keeping its current ports, volumes and
+// limits. The current state is snapshotted first so the restore can be undone;
+// when volumes are restored too, their current contents are archived with it
+// and put back if the container can't be recreated.
+export async function restoreContainerSnapshot(
+  container: ContainerInfo,
+  snapshot: SnapshotInfo,
+  restoreVolumes = false
+): Promise<ContainerInfo> {
+  const volumes = restoreVolumes
+    ? snapshot.volumes.filter((v) => container.volumes.some((attached) => attached.name === v))
+    : [];
+  let before: SnapshotInfo | null = null;
+
+  const undoVolumes = async () => {
+    if (before && volumes.length > 0) {
+      await snapshots.restoreSnapshotVolumes(before, volumes);
+    }
+  };
+
+  return recreateContainer(
+    container,
+    { volumes: container.volumes, ports: container.ports, resources: container.resources },
+    async () => {
+      before = await snapshots.createSnapshot(container, {
+        reason: 'restore',
+        label: `Before restoring ${snapshot.id}`,
+        includeVolumes: volumes.length > 0,
+      });
+      if (volumes.length > 0) {
+        try {
+          await snapshots.restoreSnapshotVolumes(snapshot, volumes);
+        } catch (error) {
+          await undoVolumes();
+          throw error;
+        }
+      }
+      return snapshot.image;
+    },
+    undoVolumes
+  );
+}
+
+// Docker labels are fixed at creation, so changing tags or notes means
+// recreating the container from a snapshot, like reconfigure: a running
+// container restarts and gets a new ID. A stopped one stays stopped.
+export async function updateContainerMetadata(
+  container: ContainerInfo,
+  metadata: UpdateContainerMetadataRequest
+): Promise<ContainerInfo> {
+  const info = await recreateContainer(
+    container,
+    {
+      volumes: container.volumes,
+      ports: container.ports,
+      resources: container.resources,
+      metadata,
+      keepStopped: true,
+    },
+    async () => {
+      const snapshot = await snapshots.createSnapshot(container, { reason: 'reconfigure', label: 'Before editing tags' });
+      return snapshot.image;
+    }
+  );
+
+  await snapshots.pruneSnapshots(container.name, 'reconfigure', RECONFIGURE_SNAPSHOTS_KEPT).catch((err) =>
+    console.error(`Failed to prune snapshots of ${container.name}:`, err)
+  );
+  return info;
+}
+
+// prepareImage runs once the container is stopped and returns the image to
+// recreate it from; undoPrepare reverses its other effects if the recreate fails
+async function recreateContainer(
+  container: ContainerInfo,
+  options: RecreateOptions,
+  prepareImage: () => Promise<string>,
+  undoPrepare?: () => Promise<void>
+): Promise<ContainerInfo> {
+  const { id, name } = container;
+  const wasRunning = container.state === 'running';
+  const start = wasRunning || !options.keepStopped;
+  const runtime = await dockerService.getContainerRuntimeConfig(id);
+
+  if (wasRunning) {
+    await dockerService.stopContainer(id);
+  }
+
+  let image: string;
+  try {
+    image = await prepareImage();
+  } catch (error) {
+    if (wasRunning) {
+      await dockerService.startContainer(id).catch(() => {});
+    }
+    throw error;
+  }
+
+  // Keep the old container aside under another name until the new one is up
+  const asideName = `${name}-pre-recreate-${Date.now()}`;
+  await dockerService.renameContainer(id, asideName);
+
+  let newId: string | null = null;
+  try {
+    // The old container is stopped, so its SSH port can be reused. It's read
+    // from the port binding, since a stopped container reports no live port;
+    // only a container that never had one is left to the gateway or given one.
+    const sshPort = runtime.sshPort ?? ((await getConfig()).sshGateway ? null : await findAvailableSshPort());
+    const newContainer = await dockerService.createContainer({
+      name,
+      image,
+      sshPort,
+      volumes: options.volumes,
+      ports: options.ports,
+      resources: options.resources,
+      env: runtime.env,
+      labels: options.metadata ? applyMetadata(runtime.labels, options.metadata) : runtime.labels,
+      restartPolicy: runtime.restartPolicy,
+    });
+    newId = newContainer.id;
+    await seedContainerKeys(newContainer.id);
+    if (start) {
+      await newContainer.start();
+    }
+
+    const info = await dockerService.getContainer(newContainer.id);
+    if (!info) {
+      throw new Error('Failed to get container info after recreating it');
+    }
+    // The image may carry an older authorized_keys (restoring an earlier
+    // snapshot); a container left stopped is synced when it next starts
+    if (start) {
+      await syncContainerKeys(info.id);
+    }
+
+    await dockerService.removeContainer(id);
+    return info;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    try {
+      await rollback(id, name, newId, wasRunning, undoPrepare);
+    } catch (rollbackError) {
+      const rollbackMessage = rollbackError instanceof Error ? rollbackError.message : 'Unknown error';
+      throw new Error(
+        `Recreating the container failed: ${message}. Restoring the previous container also failed ` +
+        `(${rollbackMessage}); it may be left stopped, possibly still named ${asideName}`
+      );
+    }
+    throw new Error(`Recreating the container failed, previous container restored: ${message}`);
+  }
+}
+
+async function rollback(
+  oldId: string,
+  name: string,
+  newId: string | null,
+  wasRunning: boolean,
+  undoPrepare?: () => Promise<void>
+): Promise<void> {
+  if (newId) {
+    await dockerService.removeContainer(newId).catch(() => {});
+  }
+  await dockerService.renameContainer(oldId, name);
+  await undoPrepare?.();
+  if (wasRunning) {
+    await dockerService.startContainer(oldId);
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const config = {
+  resourceDefaults: { cpus: 1 },
+  resourceMaximums: { cpus: 4, memory: 4096 },
+};
+vi.mock('./config.js', () => ({ getConfig: async () => config }));
+
+const { applyLimitPolicy, resolveResourceLimits, validateLimitDefaults, toHostConfig, fromHostConfig } =
+  await import('./resource-limits.js');
+
+describe('applyLimitPolicy', () => {
+  it('layers requested limits over the defaults', () => {
+    expect(applyLimitPolicy({ memory: 512 }, { cpus: 1, memory: 256 }, {})).toEqual({ cpus: 1, memory: 512 });
+  });
+
+  it('caps unset limits at their maximum', () => {
+    expect(applyLimitPolicy({}, {}, { cpus: 2, pidsLimit: 100 })).toEqual({ cpus: 2, pidsLimit: 100 });
+  });
+
+  it('only caps memory + swap alongside a memory limit', () => {
+    expect(applyLimitPolicy({}, {}, { memorySwap: 2048 })).toEqual({});
+    expect(applyLimitPolicy({ memory: 512 }, {}, { memorySwap: 2048 })).toEqual({ memory: 512, memorySwap: 2048 });
+  });
+
+  it('rejects limits over the maximum', () => {
+    expect(() => applyLimitPolicy({ cpus: 8 }, {}, { cpus: 4 })).toThrow('CPUs of 8 exceeds the maximum of 4');
+  });
+
+  it('rejects unlimited swap when swap has a maximum', () => {
+    expect(() => applyLimitPolicy({ memory: 512, memorySwap: -1 }, {}, { memorySwap: 2048 })).toThrow(
+      'Memory + swap (MiB) of unlimited exceeds the maximum of 2048'
+    );
+  });
+
+  it('requires a memory limit with memory + swap', () => {
+    expect(() => applyLimitPolicy({ memorySwap: 1024 }, {}, {})).toThrow('A memory limit is required');
+  });
+
+  it('requires memory + swap to cover the memory limit', () => {
+    expect(() => applyLimitPolicy({ memory: 1024, memorySwap: 512 }, {}, {})).toThrow(
+      'Memory + swap must be at least the memory limit'
+    );
+    expect(applyLimitPolicy({ memory: 1024, memorySwap: -1 }, {}, {})).toEqual({ memory: 1024, memorySwap: -1 });
+  });
+
+  it("doesn't hold unchanged limits to a lowered maximum", () => {
+    const current = { cpus: 8, memory: 1024 };
+    expect(applyLimitPolicy({ cpus: 8, memory: 2048 }, {}, { cpus: 4 }, current)).toEqual({ cpus: 8, memory: 2048 });
+    expect(() => applyLimitPolicy({ cpus: 6 }, {}, { cpus: 4 }, current)).toThrow('CPUs of 6 exceeds the maximum of 4');
+  });
+});
+
+describe('resolveResourceLimits', () => {
+  it('applies the configured defaults and maximums', async () => {
+    expect(await resolveResourceLimits({ memory: 1024 })).toEqual({ cpus: 1, memory: 1024 });
+    expect(await resolveResourceLimits()).toEqual({ cpus: 1, memory: 4096 });
+    await expect(resolveResourceLimits({ cpus: 5 })).rejects.toThrow('exceeds the maximum of 4');
+  });
+});
+
+describe('validateLimitDefaults', () => {
+  it('rejects defaults the maximums would refuse', () => {
+    expect(() => validateLimitDefaults({ cpus: 2 }, { cpus: 4 })).not.toThrow();
+    expect(() => validateLimitDefaults({ cpus: 8 }, { cpus: 4 })).toThrow('CPUs of 8 exceeds the maximum of 4');
+  });
+});
+
+describe('toHostConfig and fromHostConfig', () => {
+  it('round-trip every limit', () => {
+    const limits = { cpus: 1.5, memory: 512, memorySwap: 1024, pidsLimit: 200, storageSize: 10 };
+    expect(toHostConfig(limits)).toEqual({
+      NanoCpus: 1.5e9,
+      Memory: 512 * 1024 * 1024,
+      MemorySwap: 1024 * 1024 * 1024,
+      PidsLimit: 200,
+      StorageOpt: { size: '10G' },
+    });
+    expect(fromHostConfig(toHostConfig(limits))).toEqual(limits);
+  });
+
+  it('keeps unlimited swap', () => {
+    expect(fromHostConfig(toHostConfig({ memory: 512, memorySwap: -1 }))).toEqual({ memory: 512, memorySwap: -1 });
+  });
+});
@@ -0,0 +1,115 @@
+// Combine requested container resource limits with the configured defaults
+// and maximums, and translate them to Docker's HostConfig fields
+
+import type Docker from 'dockerode';
+import { getConfig } from './config.js';
+import type { ResourceLimits } from '../types/index.js';
+
+const MIB = 1024 * 1024;
+
+const LIMIT_NAMES: Record<keyof ResourceLimits, string> = {
+  cpus: 'CPUs',
+  memory: 'Memory (MiB)',
+  memorySwap: 'Memory + swap (MiB)',
+  pidsLimit: 'Process limit',
+  storageSize: 'Storage size (GiB)',
+};
+
+// Throws with a user-facing message when a limit exceeds its maximum. A limit
+// left unset while a maximum exists is capped at the maximum. Pass the
+// container's current limits when changing an existing container: only the
+// limits that change are held to the maximums, so lowering a maximum doesn't
+// stop a reconfigure that keeps what the container already has.
+export async function resolveResourceLimits(
+  requested: ResourceLimits = {},
+  current?: ResourceLimits
+): Promise<ResourceLimits> {
+  const { resourceDefaults, resourceMaximums } = await getConfig();
+  return applyLimitPolicy(requested, resourceDefaults, resourceMaximums, current);
+}
+
+// Throws if the configured defaults alone would be rejected by the maximums,
+// which would make every create fail
+export function validateLimitDefaults(defaults: ResourceLimits, maximums: ResourceLimits): void {
+  applyLimitPolicy({}, defaults, maximums);
+}
+
+export function applyLimitPolicy(
+  requested: ResourceLimits,
+  defaults: ResourceLimits,
+  maximums: ResourceLimits,
+  current?: ResourceLimits
+): ResourceLimits {
+  const limits: ResourceLimits = { ...defaults, ...requested };
+
+  for (const key of Object.keys(LIMIT_NAMES) as Array<keyof ResourceLimits>) {
+    const max = maximums[key];
+    const value = limits[key];
+    if (max === undefined) continue;
+
+    if (value !== undefined && current && value === current[key]) {
+      continue; // Unchanged
+    }
+
+    if (value === undefined) {
+      // Docker only accepts a swap limit alongside a memory limit
+      if (key !== 'memorySwap' || limits.memory !== undefined) {
+        limits[key] = max;
+      }
+    } else if (value > max || (key === 'memorySwap' && value === -1)) {
+      throw new Error(`${LIMIT_NAMES[key]} of ${value === -1 ? 'unlimited' : value} exceeds the maximum of ${max}`);
+    }
+  }
+
+  if (limits.memorySwap !== undefined) {
+    if (limits.memory === undefined) {
+      throw new Error('A memory limit is required when setting memory + swap');
+    }
+    if (limits.memorySwap !== -1 && limits.memorySwap < limits.memory) {
+      throw new Error('Memory + swap must be at least the memory limit');
+    }
+  }
+
+  return limits;
+}
+
+export function toHostConfig(limits: ResourceLimits = {}): Docker.HostConfig {
+  const hostConfig: Docker.HostConfig = {};
+  if (limits.cpus !== undefined) {
+    hostConfig.NanoCpus = Math.round(limits.cpus * 1e9);
+  }
+  if (limits.memory !== undefined) {
+    hostConfig.Memory = limits.memory * MIB;
+  }
+  if (limits.memorySwap !== undefined) {
+    hostConfig.MemorySwap = limits.memorySwap === -1 ? -1 : limits.memorySwap * MIB;
+  }
+  if (limits.pidsLimit !== undefined) {
+    hostConfig.PidsLimit = limits.pidsLimit;
+  }
+  if (limits.storageSize !== undefined) {
+    hostConfig.StorageOpt = { size: `${limits.storageSize}G` };
+  }
+  return hostConfig;
+}
+
+export function fromHostConfig(hostConfig: Docker.HostConfig): ResourceLimits {
+  const limits: ResourceLimits = {};
+  if (hostConfig.NanoCpus) {
+    limits.cpus = hostConfig.NanoCpus / 1e9;
+  }
+  if (hostConfig.Memory) {
+    limits.memory = Math.round(hostConfig.Memory / MIB);
+  }
+  if (hostConfig.MemorySwap) {
+    limits.memorySwap = hostConfig.MemorySwap === -1 ? -1 : Math.round(hostConfig.MemorySwap / MIB);
+  }
+  if (hostConfig.PidsLimit && hostConfig.PidsLimit > 0) {
+    limits.pidsLimit = hostConfig.PidsLimit;
+  }
+  const size = hostConfig.StorageOpt?.size;
+  if (size) {
+    limits.storageSize = parseInt(size, 10);
+  }
+  return limits;
+}
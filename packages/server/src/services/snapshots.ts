@@ -0,0 +1,149 @@
+// Point-in-time copies of a container: its filesystem committed to a
+// labelled image (acm-snapshot-<name>:<id>), optionally with tar archives of
+// its volumes under <dataDirectory>/snapshots/<name>/<id>/. Snapshots are
+// keyed by container name so they survive the container being recreated.
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { randomBytes } from 'crypto';
+import { mkdir, rm, readdir } from 'fs/promises';
+import { join } from 'path';
+import * as dockerService from './docker.js';
+import { getConfig } from './config.js';
+import type { ContainerInfo, SnapshotInfo } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+export const SNAPSHOT_OF_LABEL = 'acm.snapshot-of'; // Container name a snapshot was taken from
+const SNAPSHOT_ID_LABEL = 'acm.snapshot-id';
+const SNAPSHOT_NOTE_LABEL = 'acm.snapshot-label';
+const SNAPSHOT_REASON_LABEL = 'acm.snapshot-reason';
+const SNAPSHOT_VOLUMES_LABEL = 'acm.snapshot-volumes';
+const SNAPSHOT_CREATED_LABEL = 'acm.snapshot-created';
+
+// Snapshots are squashed to a single layer once the image reaches this many,
+// well below Docker's limit of about 125
+const FLATTEN_AT_LAYERS = 100;
+
+export interface CreateSnapshotOptions {
+  label?: string;
+  includeVolumes?: boolean;
+  reason?: SnapshotInfo['reason'];
+}
+
+export async function createSnapshot(container: ContainerInfo, options: CreateSnapshotOptions = {}): Promise<SnapshotInfo> {
+  const { label, includeVolumes = false, reason = 'manual' } = options;
+  const createdAt = new Date().toISOString();
+  const id = `${createdAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15)}-${randomBytes(2).toString('hex')}`;
+  const repo = snapshotRepo(container.name);
+
+  const volumes = includeVolumes ? container.volumes.map((v) => v.name) : [];
+  if (volumes.length > 0) {
+    const dir = await snapshotDir(container.name, id);
+    await mkdir(dir, { recursive: true });
+    try {
+      for (const volume of volumes) {
+        const volumePath = await dockerService.getVolumePath(volume);
+        await execFileAsync('tar', ['-cf', join(dir, `${volume}.tar`), '-C', volumePath, '.']);
+      }
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  const labels: Record<string, string> = {
+    [SNAPSHOT_OF_LABEL]: container.name,
+    [SNAPSHOT_ID_LABEL]: id,
+    [SNAPSHOT_REASON_LABEL]: reason,
+    [SNAPSHOT_CREATED_LABEL]: createdAt,
+    [SNAPSHOT_VOLUMES_LABEL]: volumes.join(','),
+  };
+  if (label) {
+    labels[SNAPSHOT_NOTE_LABEL] = label;
+  }
+
+  // Each commit adds a layer on top of the image the container runs from, so
+  // a container reconfigured or restored many times would hit Docker's limit
+  const layers = await dockerService.getContainerLayerCount(container.id);
+  const imageId = layers >= FLATTEN_AT_LAYERS
+    ? await dockerService.flattenContainer(container.id, repo, id, labels)
+    : await dockerService.commitContainer(container.id, repo, id, labels);
+
+  const snapshot = await getSnapshot(container.name, id);
+  return snapshot || {
+    id,
+    containerName: container.name,
+    image: `${repo}:${id}`,
+    imageId,
+    label,
+    reason,
+    createdAt,
+    size: 0,
+    volumes,
+  };
+}
+
+// Snapshots of a container, newest first
+export async function listSnapshots(containerName: string): Promise<SnapshotInfo[]> {
+  const images = await dockerService.findImages(`${SNAPSHOT_OF_LABEL}=${containerName}`);
+
+  return images
+    .filter((img) => img.labels[SNAPSHOT_ID_LABEL])
+    .map((img) => ({
+      id: img.labels[SNAPSHOT_ID_LABEL],
+      containerName,
+      image: `${snapshotRepo(containerName)}:${img.labels[SNAPSHOT_ID_LABEL]}`,
+      imageId: img.id,
+      label: img.labels[SNAPSHOT_NOTE_LABEL] || undefined,
+      reason: (img.labels[SNAPSHOT_REASON_LABEL] || 'manual') as SnapshotInfo['reason'],
+      createdAt: img.labels[SNAPSHOT_CREATED_LABEL] || img.created,
+      size: img.size,
+      volumes: img.labels[SNAPSHOT_VOLUMES_LABEL]?.split(',').filter(Boolean) || [],
+    }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSnapshot(containerName: string, id: string): Promise<SnapshotInfo | null> {
+  const snapshots = await listSnapshots(containerName);
+  return snapshots.find((s) => s.id === id) || null;
+}
+
+export async function deleteSnapshot(snapshot: SnapshotInfo): Promise<void> {
+  await dockerService.removeImage(snapshot.image);
+  await rm(await snapshotDir(snapshot.containerName, snapshot.id), { recursive: true, force: true });
+}
+
+// Delete all but the newest `keep` snapshots of a container taken for
+// `reason`. A snapshot a container still runs from can't be removed and is
+// skipped.
+export async function pruneSnapshots(containerName: string, reason: SnapshotInfo['reason'], keep: number): Promise<void> {
+  const stale = (await listSnapshots(containerName)).filter((s) => s.reason === reason).slice(keep);
+  for (const snapshot of stale) {
+    await deleteSnapshot(snapshot).catch(() => {});
+  }
+}
+
+// Replace the contents of the snapshot's volumes with their archived copies.
+// Only volumes still attached (by name) are restored.
+export async function restoreSnapshotVolumes(snapshot: SnapshotInfo, attached: string[]): Promise<void> {
+  const dir = await snapshotDir(snapshot.containerName, snapshot.id);
+
+  for (const volume of snapshot.volumes.filter((v) => attached.includes(v))) {
+    const volumePath = await dockerService.getVolumePath(volume);
+    await mkdir(volumePath, { recursive: true });
+    for (const entry of await readdir(volumePath)) {
+      await rm(join(volumePath, entry), { recursive: true, force: true });
+    }
+    await execFileAsync('tar', ['-xf', join(dir, `${volume}.tar`), '-C', volumePath]);
+  }
+}
+
+function snapshotRepo(containerName: string): string {
+  return `acm-snapshot-${containerName.toLowerCase()}`;
+}
+
+async function snapshotDir(containerName: string, id: string): Promise<string> {
+  const config = await getConfig();
+  return join(config.dataDirectory, 'snapshots', containerName, id);
+}
@@ -0,0 +1,127 @@
+// ssh_config generation: a "Host acm-<name>" block per container, so
+// `ssh acm-<name>` (and VS Code Remote-SSH) connect without a hand-built
+// command line. Optionally written to <sshKeysDisplayPath>/acm.config, for an
+// `Include acm.config` in ~/.ssh/config. The acm_known_hosts file next to it,
+// which both the config and the copied ssh commands use, is always kept
+// there, and both are rewritten as containers and their host keys change.
+
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import * as dockerService from './docker.js';
+import * as events from './events.js';
+import { renderKnownHosts } from './host-keys.js';
+import { getConfig } from './config.js';
+import type { ContainerInfo } from '../types/index.js';
+
+export const SSH_CONFIG_FILE = 'acm.config';
+export const KNOWN_HOSTS_FILE = 'acm_known_hosts';
+const SSH_USER = 'dev';
+const REWRITE_DELAY_MS = 500; // Coalesce bursts of container events
+
+// Container events that change which hosts exist or where they point
+const HOST_ACTIONS = new Set(['create', 'destroy', 'rename', 'start']);
+
+let rewriteTimer: NodeJS.Timeout | null = null;
+let unsubscribe: (() => void) | null = null;
+
+export function hostAlias(name: string): string {
+  return `acm-${name}`;
+}
+
+export async function renderSshConfig(containers?: ContainerInfo[]): Promise<string> {
+  const { sshKeysDisplayPath: keysPath, sshGateway, sshGatewayPort } = await getConfig();
+  // Containers without an SSH port are reached through the gateway, as
+  // <name>@localhost. Stopped containers keep their entry under the port
+  // they'll bind when started.
+  const all = containers ?? (await dockerService.listContainers());
+  const list = (await Promise.all(all.map(async (container) => ({
+    container,
+    sshPort: await dockerService.getConfiguredSshPort(container),
+  }))))
+    .filter(({ sshPort }) => sshPort || sshGateway)
+    .sort((a, b) => a.container.name.localeCompare(b.container.name));
+
+  const blocks = list.map(({ container, sshPort }) => {
+    const identityFile = container.sshKeyMode === 'container'
+      ? `${keysPath}/containers/${container.name}.pem`
+      : `${keysPath}/acm.pem`;
+    // Ports get reused across containers, so host keys are checked per alias
+    // rather than per localhost:port. Keys not recorded yet are trusted on
+    // first use.
+    return [
+      `Host ${hostAlias(container.name)}`,
+      `  HostName localhost`,
+      `  Port ${sshPort ?? sshGatewayPort}`,
+      `  User ${sshPort ? SSH_USER : container.name}`,
+      `  IdentityFile ${quote(identityFile)}`,
+      `  IdentitiesOnly yes`,
+      `  HostKeyAlias ${hostAlias(container.name)}`,
+      `  UserKnownHostsFile ${quote(`${keysPath}/${KNOWN_HOSTS_FILE}`)}`,
+      `  StrictHostKeyChecking accept-new`,
+    ].join('\n');
+  });
+
+  return [
+    '# Generated by Agent Container Management; changes will be overwritten',
+    ...blocks,
+  ].join('\n\n') + '\n';
+}
+
+// Path of the Include-able file, with ~ expanded
+export async function getSshConfigPath(): Promise<string> {
+  const { sshKeysDisplayPath } = await getConfig();
+  return join(expandHome(sshKeysDisplayPath), SSH_CONFIG_FILE);
+}
+
+// Write acm_known_hosts, and the Include-able file if enabled, and keep them
+// current
+export async function syncSshConfigFile(): Promise<void> {
+  if (!unsubscribe) {
+    unsubscribe = events.subscribe(({ event }) => {
+      if ((event.type === 'container' && HOST_ACTIONS.has(event.action)) || event.type === 'host-keys') {
+        scheduleRewrite();
+      }
+    });
+  }
+  await writeSshConfigFile();
+}
+
+// Remove an Include-able file written under a previous path or before the
+// option was turned off
+export async function removeSshConfigFile(sshKeysDisplayPath: string): Promise<void> {
+  await rm(join(expandHome(sshKeysDisplayPath), SSH_CONFIG_FILE), { force: true });
+}
+
+// Remove a known_hosts file written under a previous path
+export async function removeKnownHostsFile(sshKeysDisplayPath: string): Promise<void> {
+  await rm(join(expandHome(sshKeysDisplayPath), KNOWN_HOSTS_FILE), { force: true });
+}
+
+async function writeSshConfigFile(): Promise<void> {
+  const { writeSshConfig } = await getConfig();
+  const path = await getSshConfigPath();
+  const containers = await dockerService.listContainers();
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(join(dirname(path), KNOWN_HOSTS_FILE), await renderKnownHosts(containers), { mode: 0o600 });
+  if (writeSshConfig) {
+    await writeFile(path, await renderSshConfig(containers), { mode: 0o600 });
+  }
+}
+
+function scheduleRewrite(): void {
+  if (rewriteTimer) return;
+  rewriteTimer = setTimeout(() => {
+    rewriteTimer = null;
+    writeSshConfigFile().catch((err) => console.error('Failed to update ssh config:', err));
+  }, REWRITE_DELAY_MS);
+}
+
+function expandHome(path: string): string {
+  return path.startsWith('~') ? join(homedir(), path.slice(1)) : path;
+}
+
+// ssh_config takes double quotes around values with spaces
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
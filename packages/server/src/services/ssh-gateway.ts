@@ -0,0 +1,282 @@
+// Built-in SSH gateway: one listening port for every container. The login
+// name picks the container (`ssh <name>@host -p 2200`) and the client is
+// authenticated against the keys that container trusts - its generated key
+// and registered keys. Sessions, SFTP and port forwards are then relayed to
+// the container's sshd over the Docker network, logged in with the
+// gateway's own key, so containers need no SSH host port of their own.
+
+import ssh2 from 'ssh2';
+import type {
+  AuthContext,
+  ClientCallback,
+  ClientChannel,
+  Connection,
+  ParsedKey,
+  PseudoTtyOptions,
+  RejectConnection,
+  ServerChannel,
+} from 'ssh2';
+import * as dockerService from './docker.js';
+import * as sshKeys from './ssh-keys.js';
+import { getTrustedKeys, syncRunningContainers } from './key-rotation.js';
+import { getHostKeys } from './host-keys.js';
+import { getConfig } from './config.js';
+import type { ContainerInfo } from '../types/index.js';
+
+const { Server, Client, utils } = ssh2;
+
+const SSH_USER = 'dev';
+const CONTAINER_SSH_PORT = 22;
+const BACKEND_READY_TIMEOUT_MS = 10_000;
+
+let server: InstanceType<typeof Server> | null = null;
+let listeningPort: number | null = null;
+
+// Start, move or stop the gateway to match the settings. Running containers
+// are re-synced when it's switched on or off, to authorize or revoke the
+// gateway's key.
+export async function applyGatewayConfig(): Promise<void> {
+  const config = await getConfig();
+  const wasRunning = server !== null;
+
+  if (server && (!config.sshGateway || listeningPort !== config.sshGatewayPort)) {
+    stopGateway();
+  }
+  if (config.sshGateway && !server) {
+    await startGateway(config.sshGatewayPort);
+  }
+
+  if (wasRunning !== config.sshGateway) {
+    await syncRunningContainers().catch((err) => console.error('Failed to update SSH keys for the gateway:', err));
+  }
+}
+
+// Containers created while the gateway was on, which have no SSH port of
+// their own and can only be reached through it
+export async function listGatewayOnlyContainers(): Promise<ContainerInfo[]> {
+  const gatewayOnly: ContainerInfo[] = [];
+  for (const container of await dockerService.listContainers()) {
+    const runtime = await dockerService.getContainerRuntimeConfig(container.id).catch(() => null);
+    if (runtime && runtime.sshPort === null) {
+      gatewayOnly.push(container);
+    }
+  }
+  return gatewayOnly;
+}
+
+async function startGateway(port: number): Promise<void> {
+  const { privateKey } = await sshKeys.getGatewayHostKey();
+  const next = new Server({ hostKeys: [privateKey] }, handleClient);
+
+  await new Promise<void>((resolve, reject) => {
+    next.once('error', reject);
+    next.listen(port, () => {
+      next.off('error', reject);
+      resolve();
+    });
+  });
+  next.on('error', (err: Error) => console.error('SSH gateway error:', err));
+
+  server = next;
+  listeningPort = port;
+  console.log(`✓ SSH gateway listening on port ${port}`);
+}
+
+// Stop accepting connections; sessions already open run until they end
+function stopGateway(): void {
+  server?.close();
+  server = null;
+  listeningPort = null;
+}
+
+function handleClient(client: Connection): void {
+  let target: ContainerInfo | null = null;
+  let backend: Promise<InstanceType<typeof Client>> | null = null;
+
+  client.on('authentication', (ctx) => {
+    authenticate(ctx)
+      .then((container) => {
+        if (container) {
+          target = container;
+          ctx.accept();
+        } else {
+          ctx.reject(['publickey']);
+        }
+      })
+      .catch(() => ctx.reject(['publickey']));
+  });
+
+  client.on('ready', () => {
+    backend = connectToContainer(target!);
+    backend
+      .then((conn) => conn.on('close', () => client.end()))
+      .catch((err) => {
+        console.error(`SSH gateway could not reach ${target?.name}:`, err instanceof Error ? err.message : err);
+        client.end();
+      });
+  });
+
+  // Open a channel on the container's sshd, or refuse the client's request
+  const openBackend = (reject: RejectConnection, open: (conn: InstanceType<typeof Client>, cb: ClientCallback) => void) =>
+    new Promise<ClientChannel | null>((resolve) => {
+      if (!backend) {
+        reject();
+        return resolve(null);
+      }
+      backend
+        .then((conn) =>
+          open(conn, (err, channel) => {
+            if (err) {
+              reject();
+              return resolve(null);
+            }
+            resolve(channel);
+          })
+        )
+        .catch(() => {
+          reject();
+          resolve(null);
+        });
+    });
+
+  client.on('session', (acceptSession) => {
+    const session = acceptSession();
+    let pty: PseudoTtyOptions | false = false;
+    const env: Record<string, string> = {};
+    let remote: ClientChannel | null = null;
+
+    session.on('pty', (accept, _reject, info) => {
+      pty = { rows: info.rows, cols: info.cols, height: info.height, width: info.width, term: info.term, modes: info.modes };
+      accept?.();
+    });
+    session.on('env', (accept, _reject, info) => {
+      env[info.key] = info.val;
+      accept?.();
+    });
+    session.on('window-change', (accept, _reject, info) => {
+      remote?.setWindow(info.rows, info.cols, info.height, info.width);
+      accept?.();
+    });
+    session.on('signal', (accept, _reject, info) => {
+      try {
+        remote?.signal(info.name);
+      } catch {
+        // Not a signal sshd understands
+      }
+      accept?.();
+    });
+
+    session.on('shell', async (accept, reject) => {
+      remote = await openBackend(reject, (conn, cb) => conn.shell(pty, { env }, cb));
+      if (remote) relay(accept(), remote);
+    });
+    session.on('exec', async (accept, reject, info) => {
+      remote = await openBackend(reject, (conn, cb) => conn.exec(info.command, { pty, env }, cb));
+      if (remote) relay(accept(), remote);
+    });
+    session.on('subsystem', async (accept, reject, info) => {
+      remote = await openBackend(reject, (conn, cb) => conn.subsys(info.name, cb));
+      if (remote) relay(accept(), remote);
+    });
+  });
+
+  // Local port forwards (ssh -L, VS Code), made from inside the container
+  client.on('tcpip', async (accept, reject, info) => {
+    const remote = await openBackend(reject, (conn, cb) =>
+      conn.forwardOut(info.srcIP, info.srcPort, info.destIP, info.destPort, cb)
+    );
+    if (remote) relay(accept(), remote);
+  });
+
+  client.on('error', () => {
+    // Dropped or misbehaving clients; nothing to clean up beyond close
+  });
+  client.on('close', () => {
+    backend?.then((conn) => conn.end()).catch(() => {});
+  });
+}
+
+// The container the client may log in to, or null. Login names are
+// container names; keys must be ones the container itself trusts.
+async function authenticate(ctx: AuthContext): Promise<ContainerInfo | null> {
+  if (ctx.method !== 'publickey') {
+    return null;
+  }
+
+  const containers = await dockerService.listContainers();
+  const container = containers.find((c) => c.name === ctx.username);
+  if (!container || container.state !== 'running') {
+    return null;
+  }
+
+  const key = (await getTrustedKeys(container))
+    .map(parsePublicKey)
+    .find((parsed) => parsed?.getPublicSSH().equals(ctx.key.data));
+  if (!key) {
+    return null;
+  }
+
+  // Without a signature the client is only asking whether the key would do
+  if (ctx.signature && ctx.blob && !key.verify(ctx.blob, ctx.signature, ctx.hashAlgo)) {
+    return null;
+  }
+  return container;
+}
+
+async function connectToContainer(container: ContainerInfo): Promise<InstanceType<typeof Client>> {
+  const address = await dockerService.getContainerAddress(container.id);
+  if (!address) {
+    throw new Error('Container has no address on a Docker network');
+  }
+
+  // Only the host keys recorded when the container started are accepted;
+  // with none recorded yet there's nothing to check the container against
+  const recorded = (await getHostKeys(container.name)).map((key) => key.split(' ')[1]);
+  if (recorded.length === 0) {
+    throw new Error('No SSH host key recorded for the container yet');
+  }
+  const { privateKey } = await sshKeys.getGatewayClientKey();
+
+  return new Promise((resolve, reject) => {
+    const conn = new Client();
+    conn.once('ready', () => {
+      conn.off('error', reject);
+      conn.on('error', () => conn.end());
+      resolve(conn);
+    });
+    conn.once('error', reject);
+    conn.connect({
+      host: address,
+      port: CONTAINER_SSH_PORT,
+      username: SSH_USER,
+      privateKey,
+      readyTimeout: BACKEND_READY_TIMEOUT_MS,
+      hostVerifier: (key: Buffer) => recorded.includes(key.toString('base64')),
+    });
+  });
+}
+
+// Pass data, exit status and close through in both directions
+function relay(local: ServerChannel, remote: ClientChannel): void {
+  local.pipe(remote);
+  remote.pipe(local, { end: false });
+  remote.stderr.pipe(local.stderr, { end: false });
+
+  remote.on('exit', (code: number | null, signal?: string, coreDumped?: boolean, description?: string) => {
+    if (code !== null) {
+      local.exit(code);
+    } else if (signal) {
+      local.exit(signal, coreDumped, description);
+    }
+  });
+  remote.on('close', () => local.end());
+  local.on('close', () => remote.close());
+}
+
+function parsePublicKey(key: string): ParsedKey | null {
+  const parsed = utils.parseKey(key);
+  if (parsed instanceof Error) {
+    return null;
+  }
+  return Array.isArray(parsed) ? parsed[0] : parsed;
+}
@@ -0,0 +1,204 @@
+// Generated SSH keypairs: the app-wide key baked into images at build time,
+// per-container keys, and the built-in gateway's host key and the key it
+// uses to log in to containers. A container in per-container mode has its
+// authorized_keys replaced once started, so the app-wide key no longer opens
+// it. Per-container keys are stored by container name, which survives
+// recreation.
+
+import { execFile, execSync } from 'child_process';
+import { promisify } from 'util';
+import { mkdir, readFile, rm, access } from 'fs/promises';
+import { join } from 'path';
+import * as dockerService from './docker.js';
+import { deleteHostKeys } from './host-keys.js';
+import { getProjectRoot } from './config.js';
+import type { ContainerInfo } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+const SSH_KEYS_DIR = join(getProjectRoot(), 'data', 'ssh-keys');
+const CONTAINER_KEYS_DIR = join(SSH_KEYS_DIR, 'containers');
+const APP_KEY_NAME = 'acm'; // Single app-wide SSH key
+const GATEWAY_HOST_KEY_NAME = 'gateway_host_ed25519_key'; // Identifies the gateway to clients
+const GATEWAY_CLIENT_KEY_NAME = 'gateway.pem'; // Gateway's login to containers, never handed out
+const SSH_USER = 'dev';
+
+export function getContainerKeyPath(name: string): string {
+  return join(CONTAINER_KEYS_DIR, `${name}.pem`);
+}
+
+// Generate a fresh keypair for the container, replacing any previous one;
+// returns the public key
+export async function createContainerKey(name: string): Promise<string> {
+  await mkdir(CONTAINER_KEYS_DIR, { recursive: true });
+  const privateKeyPath = getContainerKeyPath(name);
+
+  await rm(privateKeyPath, { force: true });
+  await rm(`${privateKeyPath}.pub`, { force: true });
+  await execFileAsync('ssh-keygen', ['-t', 'ed25519', '-f', privateKeyPath, '-N', '', '-C', `acm-${name}`]);
+
+  const publicKey = await readFile(`${privateKeyPath}.pub`, 'utf-8');
+  await rm(`${privateKeyPath}.pub`);
+  return publicKey.trim();
+}
+
+export async function getContainerPublicKey(name: string): Promise<string> {
+  const { stdout } = await execFileAsync('ssh-keygen', ['-y', '-f', getContainerKeyPath(name)]);
+  return stdout.trim();
+}
+
+export async function getContainerPrivateKey(name: string): Promise<string> {
+  return readFile(getContainerKeyPath(name), 'utf-8');
+}
+
+export async function deleteContainerKey(name: string): Promise<void> {
+  await rm(getContainerKeyPath(name), { force: true });
+}
+
+// Keys currently authorized in a running container (blank lines and comments dropped)
+export async function readAuthorizedKeys(containerId: string): Promise<string[]> {
+  const result = await dockerService.execInContainer(containerId, [
+    '/bin/sh',
+    '-c',
+    `cat /home/${SSH_USER}/.ssh/authorized_keys 2>/dev/null || true`,
+  ]);
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to read authorized keys: ${result.output.trim() || `exit code ${result.exitCode}`}`);
+  }
+  return result.output.split('\n').map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+}
+
+// Overwrite the SSH user's authorized_keys in a running container
+export async function installAuthorizedKeys(containerId: string, publicKeys: string[]): Promise<void> {
+  const home = `/home/${SSH_USER}`;
+  const script = [
+    'set -e',
+    'umask 077',
+    `mkdir -p ${home}/.ssh`,
+    `printf '%s\\n' "$ACM_AUTHORIZED_KEYS" > ${home}/.ssh/authorized_keys`,
+    `chown -R ${SSH_USER}:${SSH_USER} ${home}/.ssh`,
+  ].join('\n');
+
+  const result = await dockerService.execInContainer(containerId, ['/bin/sh', '-c', script], {
+    env: { ACM_AUTHORIZED_KEYS: publicKeys.join('\n') },
+  });
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to install SSH key: ${result.output.trim() || `exit code ${result.exitCode}`}`);
+  }
+}
+
+// Write the SSH user's authorized_keys into a container that hasn't started
+// yet. Owned by root, since the user's uid isn't known; sshd accepts that,
+// and installAuthorizedKeys hands it to the user if it's rewritten later.
+export async function seedAuthorizedKeys(containerId: string, publicKeys: string[]): Promise<void> {
+  const content = publicKeys.map((key) => `${key.trim()}\n`).join('');
+  try {
+    await dockerService.writeContainerFile(containerId, `/home/${SSH_USER}/.ssh`, 'authorized_keys', content, 0o644);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to install SSH keys before start: ${message}`);
+  }
+}
+
+// Remove a container for good, along with its keypair if it had one and
+// its recorded host keys
+export async function removeContainerAndKey(container: ContainerInfo): Promise<void> {
+  await dockerService.removeContainer(container.id);
+  if (container.sshKeyMode === 'container') {
+    await deleteContainerKey(container.name);
+  }
+  await deleteHostKeys(container.name);
+}
+
+// App-wide key
+
+export async function getPrivateKeyPath(): Promise<string> {
+  return join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem`);
+}
+
+export async function getPrivateKey(): Promise<string> {
+  const keyPath = await getPrivateKeyPath();
+  return readFile(keyPath, 'utf-8');
+}
+
+export async function getPublicKey(): Promise<string> {
+  const { publicKey } = await getOrCreateAppSshKey();
+  return publicKey;
+}
+
+async function getOrCreateAppSshKey(): Promise<{ publicKey: string; privateKey: string }> {
+  await mkdir(SSH_KEYS_DIR, { recursive: true });
+
+  const privateKeyPath = join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem`);
+  const publicKeyPath = join(SSH_KEYS_DIR, `${APP_KEY_NAME}.pem.pub`);
+
+  // Check if key already exists
+  try {
+    await access(privateKeyPath);
+    // Key exists, read and return it
+    const privateKey = await readFile(privateKeyPath, 'utf-8');
+    // Regenerate public key from private key if needed
+    execSync(`ssh-keygen -y -f "${privateKeyPath}" > "${publicKeyPath}"`, { stdio: 'pipe' });
+    const publicKey = await readFile(publicKeyPath, 'utf-8');
+    await rm(publicKeyPath);
+    return { publicKey: publicKey.trim(), privateKey };
+  } catch {
+    // Key doesn't exist, generate new one
+  }
+
+  // Generate key pair using ssh-keygen
+  execSync(`ssh-keygen -t rsa -b 4096 -f "${privateKeyPath}" -N "" -C "agent-container-management"`, {
+    stdio: 'pipe',
+  });
+
+  // Read the generated keys
+  const privateKey = await readFile(privateKeyPath, 'utf-8');
+  const publicKey = await readFile(publicKeyPath, 'utf-8');
+
+  // Clean up the .pub file (we only need the content)
+  await rm(publicKeyPath);
+
+  return { publicKey: publicKey.trim(), privateKey };
+}
+
+// Gateway keys
+
+export async function getGatewayHostKey(): Promise<{ publicKey: string; privateKey: string }> {
+  return getOrCreateEd25519Key(join(SSH_KEYS_DIR, GATEWAY_HOST_KEY_NAME), 'acm-gateway');
+}
+
+export async function getGatewayClientKey(): Promise<{ publicKey: string; privateKey: string }> {
+  return getOrCreateEd25519Key(join(SSH_KEYS_DIR, GATEWAY_CLIENT_KEY_NAME), 'acm-gateway-client');
+}
+
+// The gateway's login key if it was ever generated, so it can be revoked
+export async function findGatewayClientPublicKey(): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('ssh-keygen', ['-y', '-f', join(SSH_KEYS_DIR, GATEWAY_CLIENT_KEY_NAME)]);
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+async function getOrCreateEd25519Key(
+  privateKeyPath: string,
+  comment: string
+): Promise<{ publicKey: string; privateKey: string }> {
+  try {
+    const privateKey = await readFile(privateKeyPath, 'utf-8');
+    const { stdout } = await execFileAsync('ssh-keygen', ['-y', '-f', privateKeyPath]);
+    return { publicKey: stdout.trim(), privateKey };
+  } catch {
+    // Not generated yet
+  }
+
+  await mkdir(SSH_KEYS_DIR, { recursive: true });
+  await rm(`${privateKeyPath}.pub`, { force: true });
+  await execFileAsync('ssh-keygen', ['-q', '-t', 'ed25519', '-f', privateKeyPath, '-N', '', '-C', comment]);
+
+  const privateKey = await readFile(privateKeyPath, 'utf-8');
+  const publicKey = await readFile(`${privateKeyPath}.pub`, 'utf-8');
+  await rm(`${privateKeyPath}.pub`);
+  return { publicKey: publicKey.trim(), privateKey };
+}
@@ -0,0 +1,106 @@
+// Aggregate resource usage across all running ACM containers. One Docker
+// stats stream per container is shared by every subscriber, and streams only
+// run while someone is listening.
+
+import * as dockerService from './docker.js';
+import type { ContainerStats, StatsSnapshot } from '../types/index.js';
+
+const SNAPSHOT_INTERVAL_MS = 2000;
+
+const latest = new Map<string, ContainerStats>();
+const streams = new Map<string, AbortController>();
+const listeners = new Set<(snapshot: StatsSnapshot) => void>();
+let timer: NodeJS.Timeout | null = null;
+
+export function subscribeToStats(listener: (snapshot: StatsSnapshot) => void): () => void {
+  listeners.add(listener);
+  if (!timer) {
+    start();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      stop();
+    }
+  };
+}
+
+function start(): void {
+  timer = setInterval(async () => {
+    await syncStreams().catch(() => {});
+    const snapshot = buildSnapshot();
+    for (const listener of listeners) {
+      listener(snapshot);
+    }
+  }, SNAPSHOT_INTERVAL_MS);
+  syncStreams().catch(() => {});
+}
+
+function stop(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  for (const controller of streams.values()) {
+    controller.abort();
+  }
+  streams.clear();
+  latest.clear();
+}
+
+// Open streams for newly running containers and drop stopped ones
+async function syncStreams(): Promise<void> {
+  const containers = await dockerService.listContainers();
+  const running = new Set(containers.filter((c) => c.state === 'running').map((c) => c.id));
+
+  for (const [id, controller] of streams) {
+    if (!running.has(id)) {
+      controller.abort();
+      streams.delete(id);
+      latest.delete(id);
+    }
+  }
+
+  for (const id of running) {
+    if (streams.has(id) || !timer) continue;
+
+    const controller = new AbortController();
+    streams.set(id, controller);
+    dockerService
+      .streamContainerStats(id, (stats) => latest.set(id, stats), controller.signal)
+      .catch(() => {})
+      .finally(() => {
+        // Let the next sync reopen it if the container is still running
+        if (streams.get(id) === controller) {
+          streams.delete(id);
+        }
+      });
+  }
+}
+
+function buildSnapshot(): StatsSnapshot {
+  const containers = [...latest.values()];
+  const totals = {
+    cpuPercent: 0,
+    memoryUsage: 0,
+    networkRx: 0,
+    networkTx: 0,
+    blockRead: 0,
+    blockWrite: 0,
+    pids: 0,
+  };
+
+  for (const stats of containers) {
+    totals.cpuPercent += stats.cpuPercent;
+    totals.memoryUsage += stats.memoryUsage;
+    totals.networkRx += stats.networkRx;
+    totals.networkTx += stats.networkTx;
+    totals.blockRead += stats.blockRead;
+    totals.blockWrite += stats.blockWrite;
+    totals.pids += stats.pids;
+  }
+  totals.cpuPercent = Math.round(totals.cpuPercent * 100) / 100;
+
+  return { timestamp: new Date().toISOString(), containers, totals };
+}
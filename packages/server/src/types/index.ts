@@ -1,5 +1,28 @@
 import { z } from 'zod';
 
+// Per-container resource limits; unset fields fall back to the configured defaults
+export const ResourceLimitsSchema = z.object({
+  cpus: z.number().positive().max(1024).optional(), // CPU cores, fractions allowed
+  memory: z.number().int().min(6).optional(), // MiB (Docker's minimum is 6)
+  memorySwap: z.number().int().min(-1).optional(), // MiB of memory plus swap, -1 for unlimited swap
+  pidsLimit: z.number().int().min(1).optional(),
+  storageSize: z.number().int().min(1).optional(), // GiB; needs a storage driver with quota support
+});
+
+export type ResourceLimits = z.infer<typeof ResourceLimitsSchema>;
+
+// Tags become label keys (acm.tag.<tag>) and appear in search queries, so
+// keep them to label-safe characters
+const TagSchema = z.string().min(1).max(63).regex(/^[a-z0-9][a-z0-9_.-]*$/,
+  'Tags must be lowercase and contain only letters, digits, underscore, period, or hyphen');
+
+const TagsSchema = z.array(TagSchema).max(20);
+const NotesSchema = z.string().max(2000);
+
+// Registered key names end up in a comma-separated label and a file name
+export const SshKeyNameSchema = z.string().min(1).max(63).regex(/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/,
+  'Key names must start with alphanumeric and contain only alphanumeric, underscore, period, or hyphen');
+
 export const CreateContainerSchema = z.object({
   name: z.string().min(1).regex(/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/,
     'Container name must start with alphanumeric and contain only alphanumeric, underscore, period, or hyphen'),
@@ -14,23 +37,217 @@ export const CreateContainerSchema = z.object({
     host: z.number().min(1).max(65535),
   })).optional(),
   env: z.record(z.string()).optional(),
+  priority: z.number().int().min(-100).max(100).optional(), // Higher builds first when queued
+  resources: ResourceLimitsSchema.optional(),
+  ttl: z.number().int().min(60).optional(), // Seconds from creation until the container expires
+  idleTimeout: z.number().int().min(60).optional(), // Seconds without SSH sessions or CPU activity
+  expiryAction: z.enum(['stop', 'remove']).optional(), // What happens on expiry; defaults to stop
+  tags: TagsSchema.optional(),
+  notes: NotesSchema.optional(),
+  sshKeyMode: z.enum(['shared', 'container']).optional(), // Defaults to the configured sshKeyMode
+  authorizedKeys: z.array(SshKeyNameSchema).max(50).optional(), // Registered public keys to let in
+  includeAppKey: z.boolean().optional(), // False to trust only authorizedKeys; defaults to true
 });
 
 export type CreateContainerRequest = z.infer<typeof CreateContainerSchema>;
 
+// Auto-stop settings, stored as container labels
+export interface ContainerLifecycle {
+  ttl?: number; // Seconds
+  expiresAt?: string;
+  idleTimeout?: number; // Seconds
+  idleStopAt?: string; // When the idle timeout runs out if nothing happens; only while running
+  action: 'stop' | 'remove';
+}
+
+// Whether sshd (or the configured health command) has answered since the container started
+export type ContainerReadiness = 'starting' | 'ready' | 'unhealthy';
+
 export interface ContainerInfo {
   id: string;
   name: string;
   image: string;
   status: string;
-  state: 'running' | 'stopped' | 'created' | 'exited' | 'paused' | 'building' | 'failed';
+  state: 'running' | 'stopped' | 'created' | 'exited' | 'paused' | 'queued' | 'building' | 'failed';
   sshPort: number | null;
   sshCommand: string | null;
   volumes: Array<{ name: string; mountPath: string }>;
   ports: Array<{ container: number; host: number }>;
+  resources?: ResourceLimits; // Only populated when fetching a single container
+  lifecycle?: ContainerLifecycle;
+  labels: Record<string, string>;
+  tags: string[];
+  notes?: string;
+  sshKeyMode: 'shared' | 'container'; // App-wide key, or a keypair of its own
+  authorizedKeys: string[]; // Registered public keys written to authorized_keys at start
+  includeAppKey: boolean; // Whether the generated key (shared or own) is authorized too
+  readiness?: ContainerReadiness; // Only set for running containers that have been probed
+  readinessError?: string;
+  createdAt: string;
+}
+
+// Query-string helpers: booleans arrive as "true"/"false", times as unix seconds or ISO dates
+const booleanQuery = z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1');
+
+// Also parses after:/before: in container search text
+export const timeQuery = z.string().transform((value, ctx) => {
+  const seconds = /^\d+(\.\d+)?$/.test(value) ? parseFloat(value) : Date.parse(value) / 1000;
+  if (Number.isNaN(seconds)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected unix seconds or an ISO date' });
+    return z.NEVER;
+  }
+  return Math.floor(seconds);
+});
+
+export const ContainerLogsQuerySchema = z.object({
+  follow: booleanQuery.optional(),
+  tail: z.coerce.number().int().min(0).optional(),
+  since: timeQuery.optional(),
+  until: timeQuery.optional(),
+  timestamps: booleanQuery.optional(),
+});
+
+export type ContainerLogsQuery = z.infer<typeof ContainerLogsQuerySchema>;
+
+export const CONTAINER_SORTS = ['name', '-name', 'created', '-created', 'state', '-state', 'image', '-image'] as const;
+
+export type ContainerSort = (typeof CONTAINER_SORTS)[number];
+
+// Structured filters for GET /api/containers. `q` carries the same filters as
+// search text (see services/container-query.ts); explicit params win over it.
+export const ContainerListQuerySchema = z.object({
+  q: z.string().optional(),
+  state: z.string().optional(), // Comma-separated, any may match
+  name: z.string().optional(), // Substring
+  image: z.string().optional(), // Substring
+  tag: z.string().optional(), // Comma-separated, all must match
+  createdAfter: timeQuery.optional(),
+  createdBefore: timeQuery.optional(),
+  sort: z.enum(CONTAINER_SORTS).optional(), // "-" prefix for descending; defaults to -created
+  includeBuilds: booleanQuery.optional(), // Queued, building and failed builds; default true
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ContainerListQuery = z.infer<typeof ContainerListQuerySchema>;
+
+// Seconds before Docker kills a stopping container; defaults to the configured stopTimeout
+export const StopContainerQuerySchema = z.object({
+  timeout: z.coerce.number().int().min(0).max(600).optional(),
+});
+
+const KillSignalSchema = z.enum(['SIGKILL', 'SIGTERM', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2']);
+
+export const KillContainerQuerySchema = z.object({
+  signal: KillSignalSchema.default('SIGKILL'),
+});
+
+// Which containers a bulk action applies to; criteria given together must all match
+export const ContainerSelectorSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).optional(),
+  name: z.string().min(1).optional(), // Glob: * and ? wildcards
+  // Exact label values; an empty set would match every container
+  labels: z
+    .record(z.string())
+    .refine((labels) => Object.keys(labels).length > 0, 'labels needs at least one entry')
+    .optional(),
+  tags: z.array(TagSchema).min(1).optional(), // Containers with all of these tags
+}).refine((s) => s.ids || s.name || s.labels || s.tags, 'Selector needs ids, name, labels or tags');
+
+export type ContainerSelector = z.infer<typeof ContainerSelectorSchema>;
+
+export const BulkActionSchema = z.object({
+  action: z.enum(['start', 'stop', 'restart', 'pause', 'unpause', 'kill', 'remove']),
+  selector: ContainerSelectorSchema,
+  timeout: z.number().int().min(0).max(600).optional(), // stop and restart
+  signal: KillSignalSchema.optional(), // kill
+});
+
+export type BulkActionRequest = z.infer<typeof BulkActionSchema>;
+
+export interface BulkActionResult {
+  id: string;
+  name?: string; // Unset for IDs that matched no container
+  success: boolean;
+  error?: string;
+}
+
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp?: string;
+}
+
+// Resource usage sample computed from a Docker stats reading
+export interface ContainerStats {
+  containerId: string;
+  name: string;
+  timestamp: string;
+  cpuPercent: number; // 100 = one full core
+  memoryUsage: number; // Bytes, excluding page cache
+  memoryLimit: number; // Bytes
+  memoryPercent: number;
+  networkRx: number; // Cumulative bytes
+  networkTx: number;
+  blockRead: number; // Cumulative bytes
+  blockWrite: number;
+  pids: number;
+}
+
+export interface StatsSnapshot {
+  timestamp: string;
+  containers: ContainerStats[];
+  totals: Omit<ContainerStats, 'containerId' | 'name' | 'timestamp' | 'memoryLimit' | 'memoryPercent'>;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  containerName: string;
+  image: string; // Image tag the snapshot was committed to
+  imageId: string;
+  label?: string;
+  reason: 'manual' | 'reconfigure' | 'restore' | 'clone';
   createdAt: string;
+  size: number;
+  volumes: string[]; // Volumes archived alongside the image
 }
 
+// Labels can't change on an existing container, so this recreates it
+export const UpdateContainerMetadataSchema = z.object({
+  tags: TagsSchema.optional(),
+  notes: NotesSchema.optional(), // Empty string clears the notes
+});
+
+export type UpdateContainerMetadataRequest = z.infer<typeof UpdateContainerMetadataSchema>;
+
+export const CreateSnapshotSchema = z.object({
+  label: z.string().max(100).optional(),
+  includeVolumes: z.boolean().optional(),
+});
+
+export const RestoreSnapshotSchema = z.object({
+  restoreVolumes: z.boolean().optional(), // Overwrite attached volumes with the archived copies
+});
+
+export const CloneContainerSchema = z.object({
+  count: z.number().int().min(1).max(20),
+  namePrefix: z.string().min(1).regex(/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/,
+    'Name prefix must start with alphanumeric and contain only alphanumeric, underscore, period, or hyphen').optional(),
+  copyVolumes: z.boolean().optional(), // Give each clone its own copy instead of sharing the source's volumes
+  priority: z.number().int().min(-100).max(100).optional(),
+});
+
+export type CloneContainerRequest = z.infer<typeof CloneContainerSchema>;
+
+export const BuildHistoryQuerySchema = z.object({
+  status: z.enum(['queued', 'building', 'completed', 'failed', 'cancelled']).optional(),
+  name: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type BuildHistoryQueryRequest = z.infer<typeof BuildHistoryQuerySchema>;
+
 export interface VolumeInfo {
   name: string;
   driver: string;
@@ -43,6 +260,8 @@ export interface ImageInfo {
   repoTags: string[];
   size: number;
   created: string;
+  containerCount: number; // Containers (any state) created from this image
+  baseImage?: string; // Set on shared SSH-ready images built from a plain base image
 }
 
 export const CreateVolumeSchema = z.object({
@@ -80,6 +299,39 @@ export const ReconfigureContainerSchema = z.object({
     container: z.number().min(1).max(65535),
     host: z.number().min(1).max(65535),
   })).optional(),
+  resources: ResourceLimitsSchema.optional(), // Omit to keep the container's current limits
 });
 
 export type ReconfigureContainerRequest = z.infer<typeof ReconfigureContainerSchema>;
+
+export const RotateSshKeySchema = z.object({
+  graceHours: z.number().min(0).max(24 * 30).default(24), // How long the old key keeps working
+});
+
+export interface KeyRotationStatus {
+  rotatedAt?: string; // Last rotation, if the key was ever rotated
+  graceUntil?: string; // Set while the previous key is still accepted
+}
+
+export interface KeyRotationResult {
+  rotatedAt: string;
+  graceUntil: string;
+  updated: string[]; // Running containers that got the new key
+  pending: string[]; // Not running; updated on their next start
+  failed: Array<{ name: string; error: string }>;
+}
+
+export const AddSshKeySchema = z.object({
+  name: SshKeyNameSchema,
+  publicKey: z.string().min(1).max(16384),
+});
+
+export type AddSshKeyRequest = z.infer<typeof AddSshKeySchema>;
+
+export interface RegisteredSshKey {
+  name: string;
+  publicKey: string;
+  fingerprint: string; // SHA256 fingerprint, as shown by ssh-keygen -l
+  type: string; // e.g. ssh-ed25519
+  addedAt: string;
+}
@@ -0,0 +1,9 @@
+// Which browser origins may call the API: pages served from localhost on any
+// port (the web UI picks its port dynamically)
+
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/;
+
+// Requests without an Origin header don't come from a web page (curl, scripts)
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  return !origin || LOCAL_ORIGIN.test(origin);
+}
@@ -1,4 +1,4 @@
-import { createServer } from 'net';
+import { createServer, connect } from 'net';
 import Docker from 'dockerode';
 
 const docker = new Docker();
@@ -30,13 +30,15 @@ export function isPortAvailable(port: number): Promise<boolean> {
   });
 }
 
-export async function findAvailableSshPort(): Promise<number> {
+// `exclude` holds ports already handed out but not yet bound (e.g. clones
+// that haven't started yet)
+export async function findAvailableSshPort(exclude: Set<number> = new Set()): Promise<number> {
   // Get ports already used by Docker containers
   const usedPorts = await getUsedContainerPorts();
 
   for (let port = 2222; port < 2222 + 100; port++) {
     // Skip ports already mapped to containers
-    if (usedPorts.has(port)) {
+    if (usedPorts.has(port) || exclude.has(port)) {
       continue;
     }
     // Also check if host is using the port
@@ -48,6 +50,22 @@ export async function findAvailableSshPort(): Promise<number> {
   throw new Error('No available SSH port found');
 }
 
+// Find a free host port for a container port mapping, searching upwards from
+// the port it's replacing
+export async function findAvailableHostPort(after: number, exclude: Set<number> = new Set()): Promise<number> {
+  const usedPorts = await getUsedContainerPorts();
+
+  for (let port = after + 1; port < Math.min(after + 1000, 65536); port++) {
+    if (usedPorts.has(port) || exclude.has(port)) {
+      continue;
+    }
+    if (await isPortAvailable(port)) {
+      return port;
+    }
+  }
+  throw new Error(`No available host port found above ${after}`);
+}
+
 async function getUsedContainerPorts(): Promise<Set<number>> {
   const usedPorts = new Set<number>();
 
@@ -67,3 +85,29 @@ async function getUsedContainerPorts(): Promise<Set<number>> {
 
   return usedPorts;
 }
+
+// First line sshd sends on a new connection ("SSH-2.0-OpenSSH_..."), or null
+// if nothing arrives in time. Docker's port proxy accepts connections before
+// anything listens in the container, so a connection alone proves nothing.
+export function readSshBanner(port: number, timeoutMs: number, host = '127.0.0.1'): Promise<string | null> {
+  return new Promise((resolve) => {
+    const socket = connect({ port, host });
+    let received = '';
+
+    const finish = (banner: string | null) => {
+      socket.destroy();
+      resolve(banner);
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(null));
+    socket.on('data', (chunk: Buffer) => {
+      received += chunk.toString();
+      const newline = received.indexOf('\n');
+      if (newline !== -1) {
+        finish(received.slice(0, newline).trim());
+      }
+    });
+    socket.on('error', () => finish(null));
+    socket.on('close', () => finish(null));
+  });
+}
@@ -0,0 +1,100 @@
+// Helpers for Server-Sent Events responses
+
+export interface SseWriter {
+  send: (event: string, data: unknown, id?: string | number) => void;
+  comment: (text: string) => void;
+  close: () => void;
+  onClose: (callback: () => void) => void;
+  readonly closed: boolean;
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// Create a streaming SSE response. The handler receives a writer that stays
+// usable until the client disconnects or the handler calls close().
+export function sseResponse(handler: (writer: SseWriter) => void | Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const closeCallbacks: Array<() => void> = [];
+  let closed = false;
+  let controllerRef: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+  const runCloseCallbacks = () => {
+    while (closeCallbacks.length > 0) {
+      const callback = closeCallbacks.pop()!;
+      try {
+        callback();
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  };
+
+  const enqueue = (text: string) => {
+    if (closed || !controllerRef) return;
+    try {
+      controllerRef.enqueue(encoder.encode(text));
+    } catch {
+      // Stream was closed underneath us
+      closed = true;
+      runCloseCallbacks();
+    }
+  };
+
+  const writer: SseWriter = {
+    send: (event, data, id) => {
+      const idLine = id !== undefined ? `id: ${id}\n` : '';
+      enqueue(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    comment: (text) => {
+      enqueue(`: ${text}\n\n`);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      try {
+        controllerRef?.close();
+      } catch {
+        // Already closed
+      }
+      runCloseCallbacks();
+    },
+    onClose: (callback) => {
+      if (closed) {
+        callback();
+      } else {
+        closeCallbacks.push(callback);
+      }
+    },
+    get closed() {
+      return closed;
+    },
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controllerRef = controller;
+      Promise.resolve(handler(writer)).catch((error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        writer.send('error', message);
+        writer.close();
+      });
+    },
+    cancel() {
+      // Client disconnected
+      closed = true;
+      runCloseCallbacks();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+// Send a comment line periodically so proxies don't drop idle connections
+export function startHeartbeat(writer: SseWriter, intervalMs = 15000): void {
+  const timer = setInterval(() => writer.comment('heartbeat'), intervalMs);
+  writer.onClose(() => clearInterval(timer));
+}
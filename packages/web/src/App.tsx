@@ -3,18 +3,21 @@ import { Plus, Box, AlertCircle, CheckCircle, Settings } from 'lucide-react';
 import { ContainerList } from './components/ContainerList';
 import { CreateContainerForm } from './components/CreateContainerForm';
 import { VolumeManager } from './components/VolumeManager';
+import { SshKeyManager } from './components/SshKeyManager';
 import { DockerfileEditor } from './components/DockerfileEditor';
 import { ImageList } from './components/ImageList';
+import { BuildHistory } from './components/BuildHistory';
 import { SettingsModal } from './components/SettingsModal';
-import { useHealth } from './hooks/useContainers';
+import { useHealth, useServerEvents } from './hooks/useContainers';
 
-type Tab = 'containers' | 'dockerfiles' | 'images';
+type Tab = 'containers' | 'dockerfiles' | 'images' | 'builds';
 
 function App() {
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>('containers');
   const { data: health } = useHealth();
+  useServerEvents();
 
   const dockerConnected = health?.docker === 'connected';
 
@@ -106,6 +109,16 @@ function App() {
             >
               Images
             </button>
+            <button
+              onClick={() => setActiveTab('builds')}
+              className={`border-b-2 pb-2 text-sm font-medium transition-colors ${
+                activeTab === 'builds'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              Builds
+            </button>
           </nav>
         </div>
       </header>
@@ -118,11 +131,13 @@ function App() {
             {activeTab === 'containers' && <ContainerList />}
             {activeTab === 'dockerfiles' && <DockerfileEditor />}
             {activeTab === 'images' && <ImageList />}
+            {activeTab === 'builds' && <BuildHistory />}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
             <VolumeManager />
+            <SshKeyManager />
 
             {/* Quick help */}
             <div className="rounded-lg border bg-white p-4 dark:bg-gray-800">
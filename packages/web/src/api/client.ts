@@ -47,14 +47,48 @@ export interface ContainerInfo {
   name: string;
   image: string;
   status: string;
-  state: 'running' | 'stopped' | 'created' | 'exited' | 'paused' | 'building' | 'failed';
+  state: 'running' | 'stopped' | 'created' | 'exited' | 'paused' | 'queued' | 'building' | 'failed';
   sshPort: number | null;
   sshCommand: string | null;
   volumes: Array<{ name: string; mountPath: string }>;
   ports: Array<{ container: number; host: number }>;
+  resources?: ResourceLimits;
+  lifecycle?: ContainerLifecycle;
+  labels: Record<string, string>;
+  tags: string[];
+  notes?: string;
+  sshKeyMode: SshKeyMode;
+  authorizedKeys: string[]; // Registered key names
+  includeAppKey: boolean;
+  readiness?: ContainerReadiness; // Running containers only
+  readinessError?: string;
   createdAt: string;
 }
 
+// Whether sshd (or the configured health command) has answered since the container started
+export type ContainerReadiness = 'starting' | 'ready' | 'unhealthy';
+
+// App-wide key shared by all containers, or a keypair per container
+export type SshKeyMode = 'shared' | 'container';
+
+// Auto-stop settings; idleStopAt is only set while the container runs
+export interface ContainerLifecycle {
+  ttl?: number; // Seconds
+  expiresAt?: string;
+  idleTimeout?: number; // Seconds
+  idleStopAt?: string;
+  action: 'stop' | 'remove';
+}
+
+// Units: memory and memorySwap in MiB (memorySwap -1 = unlimited), storageSize in GiB
+export interface ResourceLimits {
+  cpus?: number;
+  memory?: number;
+  memorySwap?: number;
+  pidsLimit?: number;
+  storageSize?: number;
+}
+
 export interface VolumeInfo {
   name: string;
   driver: string;
@@ -67,6 +101,8 @@ export interface ImageInfo {
   repoTags: string[];
   size: number;
   created: string;
+  containerCount: number;
+  baseImage?: string;
 }
 
 export interface CreateContainerRequest {
@@ -76,6 +112,16 @@ export interface CreateContainerRequest {
   volumes?: Array<{ name: string; mountPath: string }>;
   ports?: Array<{ container: number; host: number }>;
   env?: Record<string, string>;
+  priority?: number;
+  resources?: ResourceLimits;
+  ttl?: number; // Seconds
+  idleTimeout?: number; // Seconds
+  expiryAction?: 'stop' | 'remove';
+  tags?: string[];
+  notes?: string;
+  sshKeyMode?: SshKeyMode; // Defaults to the configured sshKeyMode
+  authorizedKeys?: string[]; // Registered key names to let in
+  includeAppKey?: boolean; // False to trust only authorizedKeys
 }
 
 async function fetchAPI<T>(path: string, options?: RequestInit): Promise<T> {
@@ -98,8 +144,30 @@ async function fetchAPI<T>(path: string, options?: RequestInit): Promise<T> {
 }
 
 // Containers
-export async function listContainers(): Promise<ContainerInfo[]> {
-  return fetchAPI('/containers');
+// Same filters as the search text in `q` (e.g. "agent state:running tag:x
+// sort:name"); explicit fields override it
+export interface ContainerListQuery {
+  q?: string;
+  state?: string; // Comma-separated
+  name?: string;
+  image?: string;
+  tag?: string; // Comma-separated, all must match
+  createdAfter?: string; // Unix seconds or ISO date
+  createdBefore?: string;
+  sort?: 'name' | '-name' | 'created' | '-created' | 'state' | '-state' | 'image' | '-image';
+  includeBuilds?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export async function listContainers(query: ContainerListQuery = {}): Promise<ContainerInfo[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  return fetchAPI(`/containers?${params}`);
 }
 
 export async function getContainer(id: string): Promise<ContainerInfo> {
@@ -108,7 +176,8 @@ export async function getContainer(id: string): Promise<ContainerInfo> {
 
 export async function createContainer(request: CreateContainerRequest): Promise<{
   buildId: string;
-  status: 'building';
+  status: 'queued';
+  queuePosition?: number;
   message: string;
 }> {
   return fetchAPI('/containers', {
@@ -117,21 +186,89 @@ export async function createContainer(request: CreateContainerRequest): Promise<
   });
 }
 
+export async function cancelBuild(buildId: string): Promise<void> {
+  await fetchAPI(`/containers/builds/${buildId}`, { method: 'DELETE' });
+}
+
 export async function startContainer(id: string): Promise<void> {
   await fetchAPI(`/containers/${id}/start`, { method: 'POST' });
 }
 
-export async function stopContainer(id: string): Promise<void> {
-  await fetchAPI(`/containers/${id}/stop`, { method: 'POST' });
+// timeout: seconds before Docker kills the container (defaults to the configured stopTimeout)
+export async function stopContainer(id: string, timeout?: number): Promise<void> {
+  const query = timeout !== undefined ? `?timeout=${timeout}` : '';
+  await fetchAPI(`/containers/${id}/stop${query}`, { method: 'POST' });
+}
+
+export async function restartContainer(id: string, timeout?: number): Promise<void> {
+  const query = timeout !== undefined ? `?timeout=${timeout}` : '';
+  await fetchAPI(`/containers/${id}/restart${query}`, { method: 'POST' });
+}
+
+export async function pauseContainer(id: string): Promise<void> {
+  await fetchAPI(`/containers/${id}/pause`, { method: 'POST' });
+}
+
+export async function unpauseContainer(id: string): Promise<void> {
+  await fetchAPI(`/containers/${id}/unpause`, { method: 'POST' });
+}
+
+export const KILL_SIGNALS = ['SIGKILL', 'SIGTERM', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2'] as const;
+
+export type KillSignal = (typeof KILL_SIGNALS)[number];
+
+export async function killContainer(id: string, signal: KillSignal = 'SIGKILL'): Promise<void> {
+  await fetchAPI(`/containers/${id}/kill?signal=${signal}`, { method: 'POST' });
 }
 
 export async function removeContainer(id: string): Promise<void> {
   await fetchAPI(`/containers/${id}`, { method: 'DELETE' });
 }
 
+// Bulk actions; selector criteria given together must all match
+export type BulkAction = 'start' | 'stop' | 'restart' | 'pause' | 'unpause' | 'kill' | 'remove';
+
+export interface BulkActionRequest {
+  action: BulkAction;
+  selector: {
+    ids?: string[];
+    name?: string; // Glob with * and ?
+    labels?: Record<string, string>;
+    tags?: string[];
+  };
+  timeout?: number;
+  signal?: KillSignal;
+}
+
+export interface BulkActionResponse {
+  action: BulkAction;
+  results: Array<{ id: string; name?: string; success: boolean; error?: string }>;
+  succeeded: number;
+  failed: number;
+}
+
+export async function bulkContainerAction(request: BulkActionRequest): Promise<BulkActionResponse> {
+  return fetchAPI('/containers/bulk', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+// Recreates the container, so it gets a new ID (and restarts if running)
+export async function updateContainerMetadata(
+  id: string,
+  metadata: { tags?: string[]; notes?: string }
+): Promise<ContainerInfo> {
+  return fetchAPI(`/containers/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(metadata),
+  });
+}
+
 export interface ReconfigureContainerRequest {
   volumes?: Array<{ name: string; mountPath: string }>;
   ports?: Array<{ container: number; host: number }>;
+  resources?: ResourceLimits;
 }
 
 export async function reconfigureContainer(id: string, request: ReconfigureContainerRequest): Promise<ContainerInfo> {
@@ -141,6 +278,211 @@ export async function reconfigureContainer(id: string, request: ReconfigureConta
   });
 }
 
+export interface CloneContainerRequest {
+  count: number;
+  namePrefix?: string;
+  copyVolumes?: boolean;
+  priority?: number;
+}
+
+export async function cloneContainer(id: string, request: CloneContainerRequest): Promise<{
+  builds: Array<{ buildId: string; name: string; queuePosition?: number }>;
+  message: string;
+}> {
+  return fetchAPI(`/containers/${id}/clone`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+// Snapshots
+export interface SnapshotInfo {
+  id: string;
+  containerName: string;
+  image: string;
+  imageId: string;
+  label?: string;
+  reason: 'manual' | 'reconfigure' | 'restore' | 'clone';
+  createdAt: string;
+  size: number;
+  volumes: string[];
+}
+
+export async function listSnapshots(containerId: string): Promise<SnapshotInfo[]> {
+  return fetchAPI(`/containers/${containerId}/snapshots`);
+}
+
+export async function createSnapshot(
+  containerId: string,
+  options: { label?: string; includeVolumes?: boolean }
+): Promise<SnapshotInfo> {
+  return fetchAPI(`/containers/${containerId}/snapshots`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
+export async function restoreSnapshot(
+  containerId: string,
+  snapshotId: string,
+  options: { restoreVolumes?: boolean }
+): Promise<ContainerInfo> {
+  return fetchAPI(`/containers/${containerId}/snapshots/${snapshotId}/restore`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
+export async function deleteSnapshot(containerId: string, snapshotId: string): Promise<void> {
+  await fetchAPI(`/containers/${containerId}/snapshots/${snapshotId}`, { method: 'DELETE' });
+}
+
+// Container logs
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp?: string;
+}
+
+export interface ContainerLogsOptions {
+  follow?: boolean;
+  tail?: number;
+  since?: string;
+  until?: string;
+  timestamps?: boolean;
+}
+
+// Stream container logs; returns a function that stops the stream
+export function streamContainerLogs(
+  id: string,
+  options: ContainerLogsOptions,
+  onLine: (line: ContainerLogLine) => void,
+  onEnd: () => void,
+  onError: (error: string) => void
+): () => void {
+  const controller = new AbortController();
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+
+  (async () => {
+    const apiBase = await getApiBase();
+    const response = await fetch(`${apiBase}/containers/${id}/logs?${params}`, {
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to load logs' }));
+      onError(error.error || 'Failed to load logs');
+      return;
+    }
+
+    await readEventStream(response, (event, data) => {
+      if (event === 'stdout' || event === 'stderr') {
+        const { text, timestamp } = data as { text: string; timestamp?: string };
+        onLine({ stream: event, text, timestamp });
+      } else if (event === 'end') {
+        onEnd();
+      } else if (event === 'error') {
+        onError(data as string);
+      }
+    });
+  })().catch((err) => {
+    if (!controller.signal.aborted) {
+      onError(err.message);
+    }
+  });
+
+  return () => controller.abort();
+}
+
+// Stream a container build's log (replayed from the start, then live);
+// returns a function that stops the stream
+export function streamBuildLogs(
+  buildId: string,
+  onLog: (log: string) => void,
+  onDone: (containerId: string) => void,
+  onError: (error: string) => void
+): () => void {
+  const controller = new AbortController();
+
+  (async () => {
+    const apiBase = await getApiBase();
+    const response = await fetch(`${apiBase}/containers/builds/${buildId}/logs`, {
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to load build log' }));
+      onError(error.error || 'Failed to load build log');
+      return;
+    }
+
+    await readEventStream(response, (event, data) => {
+      if (event === 'log') {
+        onLog(data as string);
+      } else if (event === 'done') {
+        onDone(data as string);
+      } else if (event === 'error') {
+        onError(data as string);
+      }
+    });
+  })().catch((err) => {
+    if (!controller.signal.aborted) {
+      onError(err.message);
+    }
+  });
+
+  return () => controller.abort();
+}
+
+// Read "event: x / data: json" blocks from an SSE response body until it closes
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response stream');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      const eventMatch = block.match(/^event: (\w+)$/m);
+      const dataMatch = block.match(/^data: (.+)$/m);
+
+      if (eventMatch && dataMatch) {
+        onEvent(eventMatch[1], JSON.parse(dataMatch[1]));
+      }
+    }
+  }
+}
+
+// Terminal (WebSocket exec into the container)
+export type TerminalServerMessage =
+  | { type: 'exit'; code: number | null }
+  | { type: 'error'; message: string };
+
+export async function getTerminalUrl(id: string, cols: number, rows: number): Promise<string> {
+  const serverUrl = await discoverServer();
+  const wsUrl = serverUrl.replace(/^http/, 'ws');
+  return `${wsUrl}/api/containers/${id}/terminal?cols=${cols}&rows=${rows}`;
+}
+
 export async function downloadSshKey(id: string): Promise<Blob> {
   const apiBase = await getApiBase();
   const response = await fetch(`${apiBase}/containers/${id}/ssh-key`);
@@ -150,6 +492,26 @@ export async function downloadSshKey(id: string): Promise<Blob> {
   return response.blob();
 }
 
+// ssh_config with a "Host acm-<name>" block per container
+export async function downloadSshConfig(): Promise<Blob> {
+  const apiBase = await getApiBase();
+  const response = await fetch(`${apiBase}/ssh-config`);
+  if (!response.ok) {
+    throw new Error('Failed to download ssh config');
+  }
+  return response.blob();
+}
+
+// Recorded container host keys, as a known_hosts file
+export async function downloadKnownHosts(): Promise<Blob> {
+  const apiBase = await getApiBase();
+  const response = await fetch(`${apiBase}/containers/known-hosts`);
+  if (!response.ok) {
+    throw new Error('Failed to download known_hosts');
+  }
+  return response.blob();
+}
+
 // Images
 export async function listImages(): Promise<ImageInfo[]> {
   return fetchAPI('/images');
@@ -166,6 +528,10 @@ export async function removeImage(id: string): Promise<void> {
   await fetchAPI(`/images/${encodeURIComponent(id)}`, { method: 'DELETE' });
 }
 
+export async function pruneBaseImages(): Promise<{ removed: string[] }> {
+  return fetchAPI('/images/prune-base', { method: 'POST' });
+}
+
 // Volumes
 export async function listVolumes(): Promise<VolumeInfo[]> {
   return fetchAPI('/volumes');
@@ -182,6 +548,30 @@ export async function removeVolume(name: string): Promise<void> {
   await fetchAPI(`/volumes/${name}`, { method: 'DELETE' });
 }
 
+// Registered public keys
+export interface RegisteredSshKey {
+  name: string;
+  publicKey: string;
+  fingerprint: string;
+  type: string;
+  addedAt: string;
+}
+
+export async function listSshKeys(): Promise<RegisteredSshKey[]> {
+  return fetchAPI('/ssh-keys');
+}
+
+export async function addSshKey(key: { name: string; publicKey: string }): Promise<RegisteredSshKey> {
+  return fetchAPI('/ssh-keys', {
+    method: 'POST',
+    body: JSON.stringify(key),
+  });
+}
+
+export async function removeSshKey(name: string): Promise<void> {
+  await fetchAPI(`/ssh-keys/${name}`, { method: 'DELETE' });
+}
+
 export async function getVolumeFiles(name: string): Promise<string[]> {
   const result = await fetchAPI<{ files: string[] }>(`/volumes/${name}/files`);
   return result.files;
@@ -314,6 +704,150 @@ export async function buildDockerfile(
   });
 }
 
+// Build history
+export interface BuildRecord {
+  id: string;
+  name: string;
+  status: BuildStatus['status'];
+  startedAt: string;
+  dequeuedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  request?: CreateContainerRequest;
+  imageName?: string;
+  imageId?: string;
+  containerId?: string;
+  error?: string;
+  logTail?: string;
+}
+
+export interface BuildHistoryQuery {
+  status?: BuildStatus['status'];
+  name?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export async function listBuildHistory(query: BuildHistoryQuery): Promise<{
+  builds: BuildRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+}> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  return fetchAPI(`/builds?${params}`);
+}
+
+export async function getBuildRecord(id: string): Promise<BuildRecord> {
+  return fetchAPI(`/builds/${id}`);
+}
+
+// Real-time events
+export type ServerEvent =
+  | { type: 'container'; action: string; containerId: string; name: string; image?: string; time: string }
+  | { type: 'image'; action: string; imageId: string; name?: string; time: string }
+  | { type: 'build'; action: BuildStatus['status']; build: BuildStatus; time: string }
+  | { type: 'lifecycle'; action: 'expired' | 'idle'; containerId: string; name: string; outcome: 'stopped' | 'removed'; time: string }
+  | { type: 'readiness'; action: ContainerReadiness; containerId: string; name: string; time: string }
+  | { type: 'reset' };
+
+export interface BuildStatus {
+  id: string;
+  name: string;
+  status: 'queued' | 'building' | 'completed' | 'failed' | 'cancelled';
+  priority: number;
+  startedAt: string;
+  dequeuedAt?: string;
+  queuePosition?: number;
+  completedAt?: string;
+  error?: string;
+  containerId?: string;
+}
+
+const SERVER_EVENT_TYPES = ['container', 'image', 'build', 'lifecycle', 'readiness', 'reset'] as const;
+
+// Subscribe to /api/events. EventSource reconnects on its own and resumes
+// from the last event id; returns a function that closes the connection.
+export function subscribeToEvents(onEvent: (event: ServerEvent) => void): () => void {
+  let source: EventSource | null = null;
+  let closed = false;
+
+  discoverServer().then((serverUrl) => {
+    if (closed) return;
+    source = new EventSource(`${serverUrl}/api/events`);
+
+    for (const type of SERVER_EVENT_TYPES) {
+      source.addEventListener(type, (e) => {
+        try {
+          onEvent(JSON.parse((e as MessageEvent).data));
+        } catch {
+          // Ignore malformed events
+        }
+      });
+    }
+  }).catch((err) => {
+    console.error('Failed to subscribe to server events:', err);
+  });
+
+  return () => {
+    closed = true;
+    source?.close();
+  };
+}
+
+// Resource usage
+export interface ContainerStats {
+  containerId: string;
+  name: string;
+  timestamp: string;
+  cpuPercent: number;
+  memoryUsage: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  networkRx: number;
+  networkTx: number;
+  blockRead: number;
+  blockWrite: number;
+  pids: number;
+}
+
+export interface StatsSnapshot {
+  timestamp: string;
+  containers: ContainerStats[];
+  totals: Omit<ContainerStats, 'containerId' | 'name' | 'timestamp' | 'memoryLimit' | 'memoryPercent'>;
+}
+
+// Subscribe to aggregate stats for all running containers; returns a
+// function that closes the connection
+export function subscribeToStats(onSnapshot: (snapshot: StatsSnapshot) => void): () => void {
+  let source: EventSource | null = null;
+  let closed = false;
+
+  discoverServer().then((serverUrl) => {
+    if (closed) return;
+    source = new EventSource(`${serverUrl}/api/stats`);
+    source.addEventListener('stats', (e) => {
+      try {
+        onSnapshot(JSON.parse((e as MessageEvent).data));
+      } catch {
+        // Ignore malformed events
+      }
+    });
+  }).catch((err) => {
+    console.error('Failed to subscribe to stats:', err);
+  });
+
+  return () => {
+    closed = true;
+    source?.close();
+  };
+}
+
 // Health
 export async function checkHealth(): Promise<{ status: string; docker: string }> {
   return fetchAPI('/health');
@@ -323,6 +857,17 @@ export async function checkHealth(): Promise<{ status: string; docker: string }>
 export interface AppConfig {
   sshKeysDisplayPath: string;
   dataDirectory: string;
+  maxConcurrentBuilds: number;
+  stopTimeout: number; // Seconds
+  sshKeyMode: SshKeyMode; // Default for new containers
+  writeSshConfig: boolean; // Keep <sshKeysDisplayPath>/acm.config current
+  stableHostKeys: boolean; // One host key per container name, kept across rebuilds
+  readinessTimeout: number; // Seconds a started container gets to become ready
+  healthCommand: string; // Readiness check run in the container; empty waits for the SSH banner
+  sshGateway: boolean; // All containers behind one port, as <name>@host; new ones get no SSH port
+  sshGatewayPort: number;
+  resourceDefaults: ResourceLimits;
+  resourceMaximums: ResourceLimits;
 }
 
 export async function getConfig(): Promise<AppConfig> {
@@ -336,6 +881,31 @@ export async function updateConfig(updates: Partial<AppConfig>): Promise<AppConf
   });
 }
 
+// App SSH key rotation
+export interface KeyRotationStatus {
+  rotatedAt?: string;
+  graceUntil?: string; // Set while the previous key is still accepted
+}
+
+export interface KeyRotationResult {
+  rotatedAt: string;
+  graceUntil: string;
+  updated: string[]; // Running containers that got the new key
+  pending: string[]; // Updated on their next start
+  failed: Array<{ name: string; error: string }>;
+}
+
+export async function getSshKeyStatus(): Promise<KeyRotationStatus> {
+  return fetchAPI('/config/ssh-key');
+}
+
+export async function rotateSshKey(graceHours: number): Promise<KeyRotationResult> {
+  return fetchAPI('/config/ssh-key/rotate', {
+    method: 'POST',
+    body: JSON.stringify({ graceHours }),
+  });
+}
+
 // Directory browsing
 export interface DirectoryEntry {
   name: string;
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { History, Loader2, ChevronLeft, ChevronRight, ChevronDown, Search } from 'lucide-react';
+import type { BuildRecord } from '../api/client';
+import { useBuildHistory, useBuildRecord } from '../hooks/useContainers';
+
+const PAGE_SIZE = 20;
+
+const statusStyles: Record<BuildRecord['status'], string> = {
+  queued: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-500/20 dark:text-indigo-400',
+  building: 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400',
+  cancelled: 'bg-gray-100 text-gray-600 dark:bg-gray-500/20 dark:text-gray-400',
+};
+
+export function BuildHistory() {
+  const [status, setStatus] = useState<BuildRecord['status'] | ''>('');
+  const [name, setName] = useState('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useBuildHistory({
+    status: status || undefined,
+    name: name || undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  });
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="rounded-lg border bg-white dark:bg-gray-800">
+      <div className="flex items-center justify-between gap-4 border-b px-4 py-3 dark:border-gray-700">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <History className="h-5 w-5" />
+          Build History
+          <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-normal text-gray-600 dark:bg-gray-700 dark:text-gray-400">
+            {total}
+          </span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setPage(0);
+              }}
+              placeholder="Container name"
+              className="w-40 rounded-md border border-gray-300 py-1 pl-7 pr-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as BuildRecord['status'] | '');
+              setPage(0);
+            }}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">All statuses</option>
+            <option value="queued">Queued</option>
+            <option value="building">Building</option>
+            <option value="completed">Completed</option>
+            <option value="failed">Failed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 p-8 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading builds...
+        </div>
+      ) : !data || data.builds.length === 0 ? (
+        <p className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          No builds recorded yet.
+        </p>
+      ) : (
+        <div className="divide-y dark:divide-gray-700">
+          {data.builds.map((build) => (
+            <BuildRow
+              key={build.id}
+              build={build}
+              expanded={expandedId === build.id}
+              onToggle={() => setExpandedId(expandedId === build.id ? null : build.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between border-t px-4 py-2 text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="rounded p-1 hover:bg-gray-100 disabled:opacity-50 dark:hover:bg-gray-700"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount}
+              className="rounded p-1 hover:bg-gray-100 disabled:opacity-50 dark:hover:bg-gray-700"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BuildRowProps {
+  build: BuildRecord;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function BuildRow({ build, expanded, onToggle }: BuildRowProps) {
+  const { data: details, isLoading } = useBuildRecord(expanded ? build.id : null);
+
+  const formatDuration = (ms?: number) => {
+    if (ms === undefined) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  return (
+    <div>
+      <button
+        onClick={onToggle}
+        className="flex w-full items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+      >
+        <ChevronDown
+          className={`h-4 w-4 shrink-0 text-gray-400 transition-transform ${expanded ? '' : '-rotate-90'}`}
+        />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate font-medium text-gray-900 dark:text-white">{build.name}</span>
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${statusStyles[build.status]}`}>
+              {build.status}
+            </span>
+          </div>
+          <div className="mt-1 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+            <span>{new Date(build.startedAt).toLocaleString()}</span>
+            <span>{formatDuration(build.durationMs)}</span>
+            {build.imageName && <span className="truncate font-mono">{build.imageName}</span>}
+          </div>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="space-y-3 px-11 pb-4 text-sm">
+          {build.error && (
+            <div className="rounded-md bg-red-50 p-2 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              {build.error}
+            </div>
+          )}
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+            <dt className="text-gray-500">Build ID</dt>
+            <dd className="font-mono text-gray-700 dark:text-gray-300">{build.id}</dd>
+            {build.request?.image && (
+              <>
+                <dt className="text-gray-500">Base image</dt>
+                <dd className="font-mono text-gray-700 dark:text-gray-300">{build.request.image}</dd>
+              </>
+            )}
+            {build.imageId && (
+              <>
+                <dt className="text-gray-500">Image ID</dt>
+                <dd className="font-mono text-gray-700 dark:text-gray-300">
+                  {build.imageId.replace('sha256:', '').substring(0, 12)}
+                </dd>
+              </>
+            )}
+            {build.containerId && (
+              <>
+                <dt className="text-gray-500">Container ID</dt>
+                <dd className="font-mono text-gray-700 dark:text-gray-300">{build.containerId.substring(0, 12)}</dd>
+              </>
+            )}
+            {build.request?.ports && build.request.ports.length > 0 && (
+              <>
+                <dt className="text-gray-500">Ports</dt>
+                <dd className="text-gray-700 dark:text-gray-300">
+                  {build.request.ports.map((p) => `${p.host}→${p.container}`).join(', ')}
+                </dd>
+              </>
+            )}
+            {build.request?.volumes && build.request.volumes.length > 0 && (
+              <>
+                <dt className="text-gray-500">Volumes</dt>
+                <dd className="text-gray-700 dark:text-gray-300">
+                  {build.request.volumes.map((v) => `${v.name}:${v.mountPath}`).join(', ')}
+                </dd>
+              </>
+            )}
+          </dl>
+
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          ) : details?.logTail ? (
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-md bg-gray-900 p-3 font-mono text-xs text-gray-300">
+              {details.logTail}
+            </pre>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
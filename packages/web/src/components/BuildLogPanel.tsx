@@ -0,0 +1,55 @@
+import { useState, useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { streamBuildLogs } from '../api/client';
+
+interface BuildLogPanelProps {
+  buildId: string;
+}
+
+export function BuildLogPanel({ buildId }: BuildLogPanelProps) {
+  const [logs, setLogs] = useState<string[]>([]);
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const logsEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setLogs([]);
+    setResult(null);
+
+    return streamBuildLogs(
+      buildId,
+      (log) => setLogs((prev) => [...prev, log]),
+      () => setResult({ type: 'success', message: 'Container created' }),
+      (error) => setResult({ type: 'error', message: error })
+    );
+  }, [buildId]);
+
+  // Auto-scroll logs
+  useEffect(() => {
+    logsEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [logs]);
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-900/70 overflow-hidden">
+      <div className="h-64 overflow-auto px-3 py-2 font-mono text-xs">
+        <pre className="text-gray-300 whitespace-pre-wrap break-all">
+          {logs.map((log, i) => (
+            <span key={i}>{log.endsWith('\n') ? log : `${log}\n`}</span>
+          ))}
+        </pre>
+        <div ref={logsEndRef} />
+      </div>
+      <div
+        className={`flex items-center gap-2 px-3 py-1.5 border-t border-gray-700/50 text-xs ${
+          result?.type === 'error'
+            ? 'text-red-400'
+            : result?.type === 'success'
+            ? 'text-green-400'
+            : 'text-gray-500'
+        }`}
+      >
+        {!result && <Loader2 className="h-3 w-3 animate-spin" />}
+        <span className="truncate">{result ? result.message : 'Building...'}</span>
+      </div>
+    </div>
+  );
+}
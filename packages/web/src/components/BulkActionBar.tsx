@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Play, Square, RotateCw, Pause, Trash2, X, Loader2 } from 'lucide-react';
+import { useBulkContainerAction } from '../hooks/useContainers';
+import type { BulkAction, BulkActionResponse } from '../api/client';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  totalSelectable: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: () => void;
+}
+
+const actions: Array<{ action: BulkAction; label: string; icon: typeof Play; hover: string }> = [
+  { action: 'start', label: 'Start', icon: Play, hover: 'hover:text-green-400' },
+  { action: 'stop', label: 'Stop', icon: Square, hover: 'hover:text-orange-400' },
+  { action: 'restart', label: 'Restart', icon: RotateCw, hover: 'hover:text-blue-400' },
+  { action: 'pause', label: 'Pause', icon: Pause, hover: 'hover:text-yellow-400' },
+  { action: 'unpause', label: 'Resume', icon: Play, hover: 'hover:text-green-400' },
+  { action: 'remove', label: 'Remove', icon: Trash2, hover: 'hover:text-red-400' },
+];
+
+export function BulkActionBar({ selectedIds, totalSelectable, onSelectAll, onClear, onDone }: BulkActionBarProps) {
+  const bulkMutation = useBulkContainerAction();
+  const [lastResult, setLastResult] = useState<BulkActionResponse | null>(null);
+
+  const run = async (action: BulkAction) => {
+    if (action === 'remove' && !confirm(`Delete ${selectedIds.length} container(s)?`)) {
+      return;
+    }
+    try {
+      const result = await bulkMutation.mutateAsync({ action, selector: { ids: selectedIds } });
+      setLastResult(result);
+      if (result.failed === 0) {
+        onDone();
+      }
+    } catch (error) {
+      console.error(`Bulk ${action} failed:`, error);
+    }
+  };
+
+  const failures = lastResult?.results.filter((r) => !r.success) || [];
+  const allSelected = selectedIds.length > 0 && selectedIds.length === totalSelectable;
+
+  return (
+    <div className="sticky top-0 z-20 rounded-lg border border-gray-700 bg-gray-800/95 backdrop-blur px-4 py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-white">{selectedIds.length} selected</span>
+        <button
+          onClick={allSelected ? onClear : onSelectAll}
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          {allSelected ? 'Clear' : 'Select all'}
+        </button>
+
+        <div className="flex items-center gap-1 ml-auto">
+          {bulkMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-400 mr-2" />}
+          {actions.map(({ action, label, icon: Icon, hover }) => (
+            <button
+              key={action}
+              onClick={() => run(action)}
+              disabled={selectedIds.length === 0 || bulkMutation.isPending}
+              className={`flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors ${hover}`}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={onDone}
+            className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-gray-200 transition-colors"
+            title="Exit selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {bulkMutation.error && (
+        <p className="text-sm text-red-400">{bulkMutation.error.message}</p>
+      )}
+      {failures.length > 0 && (
+        <div className="text-sm text-red-400 space-y-0.5">
+          <p>
+            {lastResult!.succeeded} succeeded, {lastResult!.failed} failed:
+          </p>
+          {failures.map((f) => (
+            <p key={f.id} className="text-xs font-mono truncate">
+              {f.name ?? f.id}: {f.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { X, Loader2, CopyPlus } from 'lucide-react';
+import { useCloneContainer } from '../hooks/useContainers';
+import type { ContainerInfo } from '../api/client';
+
+interface CloneModalProps {
+  container: ContainerInfo;
+  onClose: () => void;
+}
+
+export function CloneModal({ container, onClose }: CloneModalProps) {
+  const [count, setCount] = useState(2);
+  const [namePrefix, setNamePrefix] = useState(`${container.name}-clone`);
+  const [copyVolumes, setCopyVolumes] = useState(true);
+
+  const cloneMutation = useCloneContainer();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await cloneMutation.mutateAsync({
+        id: container.id,
+        count,
+        namePrefix,
+        copyVolumes: container.volumes.length > 0 ? copyVolumes : undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to clone container:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold dark:text-white flex items-center gap-2">
+            <CopyPlus className="h-5 w-5" />
+            Clone Container
+          </h2>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+          Creates copies of <strong>{container.name}</strong> from a snapshot of its current filesystem.
+          Each clone gets its own SSH port and remapped host ports.
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto] gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name Prefix
+              </label>
+              <input
+                type="text"
+                value={namePrefix}
+                onChange={(e) => setNamePrefix(e.target.value)}
+                required
+                pattern="^[a-zA-Z0-9][a-zA-Z0-9_.-]*$"
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Copies
+              </label>
+              <input
+                type="number"
+                value={count}
+                onChange={(e) => setCount(Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                min={1}
+                max={20}
+                className="mt-1 w-20 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Clones are named {namePrefix}-1, {namePrefix}-2, … (taken names are skipped).
+          </p>
+
+          {container.volumes.length > 0 && (
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={copyVolumes}
+                onChange={(e) => setCopyVolumes(e.target.checked)}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                Copy volumes
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  Each clone gets its own copy of {container.volumes.map((v) => v.name).join(', ')}.
+                  Unchecked, clones share the source's volumes.
+                </span>
+              </span>
+            </label>
+          )}
+
+          {cloneMutation.error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              {cloneMutation.error.message}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={cloneMutation.isPending}
+              className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {cloneMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Clone
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -11,39 +11,103 @@ import {
   Globe,
   Settings,
   ExternalLink,
+  ScrollText,
+  SquareTerminal,
+  X,
+  Ban,
+  Camera,
+  CopyPlus,
+  Pause,
+  RotateCw,
+  Zap,
+  Tag,
+  KeyRound,
 } from 'lucide-react';
-import type { ContainerInfo } from '../api/client';
-import { downloadSshKey } from '../api/client';
+import type { ContainerInfo, ContainerStats } from '../api/client';
+import { downloadSshKey, KILL_SIGNALS } from '../api/client';
 import {
   useStartContainer,
   useStopContainer,
+  useRestartContainer,
+  usePauseContainer,
+  useUnpauseContainer,
+  useKillContainer,
   useRemoveContainer,
+  useCancelBuild,
   useConfig,
 } from '../hooks/useContainers';
 import { ReconfigureModal } from './ReconfigureModal';
+import { CloneModal } from './CloneModal';
+import { EditMetadataModal } from './EditMetadataModal';
+import { LogViewer } from './LogViewer';
+import { TerminalView } from './TerminalView';
+import { BuildLogPanel } from './BuildLogPanel';
+import { ContainerStatsPanel } from './ContainerStatsPanel';
+import { SnapshotTimeline } from './SnapshotTimeline';
+import { LifecycleCountdown } from './LifecycleCountdown';
+
+type Panel = 'logs' | 'terminal' | 'snapshots';
+
+const panelLabels: Record<Panel, string> = {
+  logs: 'Logs',
+  terminal: 'Terminal',
+  snapshots: 'Snapshots',
+};
 
 interface ContainerCardProps {
   container: ContainerInfo;
+  stats?: ContainerStats[]; // Recent usage samples, oldest first
+  selection?: { selected: boolean; onToggle: () => void }; // Set in multi-select mode
 }
 
-export function ContainerCard({ container }: ContainerCardProps) {
+export function ContainerCard({ container, stats, selection }: ContainerCardProps) {
   const [copied, setCopied] = useState(false);
   const [showReconfigure, setShowReconfigure] = useState(false);
+  const [showClone, setShowClone] = useState(false);
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [showBuildLog, setShowBuildLog] = useState(false);
+  const [showKillMenu, setShowKillMenu] = useState(false);
   const startMutation = useStartContainer();
   const stopMutation = useStopContainer();
+  const restartMutation = useRestartContainer();
+  const pauseMutation = usePauseContainer();
+  const unpauseMutation = useUnpauseContainer();
+  const killMutation = useKillContainer();
   const removeMutation = useRemoveContainer();
+  const cancelBuildMutation = useCancelBuild();
   const { data: config } = useConfig();
 
   const sshKeysPath = config?.sshKeysDisplayPath || '~/.ssh';
   const isRunning = container.state === 'running';
-  const isBuilding = container.state === 'building';
+  const isPaused = container.state === 'paused';
+  const isQueued = container.state === 'queued';
+  const isBuilding = isQueued || container.state === 'building';
   const isFailed = container.state === 'failed';
   const isPending =
-    startMutation.isPending || stopMutation.isPending || removeMutation.isPending;
+    startMutation.isPending ||
+    stopMutation.isPending ||
+    restartMutation.isPending ||
+    pauseMutation.isPending ||
+    unpauseMutation.isPending ||
+    killMutation.isPending ||
+    removeMutation.isPending;
 
-  const sshCommand = container.sshPort
-    ? `ssh -o StrictHostKeyChecking=no -o IdentitiesOnly=yes -i ${sshKeysPath}/acm.pem -p ${container.sshPort} dev@localhost`
-    : null;
+  // Per-container keys live in a subdirectory, named after the container
+  const keyFile = container.sshKeyMode === 'container' ? `${container.name}.pem` : 'acm.pem';
+  const keyPath = container.sshKeyMode === 'container' ? `${sshKeysPath}/containers/${keyFile}` : `${sshKeysPath}/${keyFile}`;
+  // Containers without an SSH port of their own are reached through the gateway
+  const sshTarget = container.sshPort
+    ? `-p ${container.sshPort} dev@localhost`
+    : config?.sshGateway
+      ? `-p ${config.sshGatewayPort} ${container.name}@localhost`
+      : null;
+  // With the generated ssh config included, the host alias carries all the options
+  const sshCommand = !sshTarget
+    ? null
+    : config?.writeSshConfig
+      ? `ssh acm-${container.name}`
+      : `ssh -o UserKnownHostsFile=${sshKeysPath}/acm_known_hosts -o HostKeyAlias=acm-${container.name} -o StrictHostKeyChecking=accept-new -o IdentitiesOnly=yes -i ${keyPath} ${sshTarget}`;
 
   const handleCopyCommand = async () => {
     if (sshCommand) {
@@ -59,7 +123,7 @@ export function ContainerCard({ container }: ContainerCardProps) {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'acm.pem';
+      a.download = keyFile;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -75,6 +139,7 @@ export function ContainerCard({ container }: ContainerCardProps) {
     created: { bg: 'bg-yellow-500/20', text: 'text-yellow-400', label: 'Created' },
     paused: { bg: 'bg-orange-500/20', text: 'text-orange-400', label: 'Paused' },
     stopped: { bg: 'bg-gray-500/20', text: 'text-gray-400', label: 'Stopped' },
+    queued: { bg: 'bg-indigo-500/20', text: 'text-indigo-400', label: 'Queued' },
     building: { bg: 'bg-blue-500/20', text: 'text-blue-400', label: 'Building...' },
     failed: { bg: 'bg-red-600/20', text: 'text-red-500', label: 'Failed' },
   };
@@ -82,36 +147,163 @@ export function ContainerCard({ container }: ContainerCardProps) {
   const currentState = stateConfig[container.state] || stateConfig.stopped;
 
   return (
-    <div className="rounded-xl border border-gray-700 bg-gray-800/50 backdrop-blur overflow-hidden">
+    <div className={`rounded-xl border bg-gray-800/50 backdrop-blur overflow-hidden ${selection?.selected ? 'border-blue-500' : 'border-gray-700'}`}>
       {/* Header */}
       <div className="px-5 py-4 border-b border-gray-700/50">
         <div className="flex items-start justify-between gap-4">
           <div className="min-w-0 flex-1">
             <div className="flex items-center gap-3 mb-1">
+              {selection && (
+                <input
+                  type="checkbox"
+                  checked={selection.selected}
+                  onChange={selection.onToggle}
+                  className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                />
+              )}
               <h3 className="font-semibold text-white text-lg truncate">
                 {container.name}
               </h3>
               <span className={`inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium ${currentState.bg} ${currentState.text}`}>
-                <span className={`w-1.5 h-1.5 rounded-full ${container.state === 'building' ? 'animate-pulse' : ''} ${currentState.text.replace('text-', 'bg-')}`} />
+                <span className={`w-1.5 h-1.5 rounded-full ${isBuilding ? 'animate-pulse' : ''} ${currentState.text.replace('text-', 'bg-')}`} />
                 {currentState.label}
               </span>
+              {isRunning && container.readiness === 'starting' && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-400" title="Waiting for sshd to answer">
+                  Starting SSH...
+                </span>
+              )}
+              {isRunning && container.readiness === 'unhealthy' && (
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-500/20 text-red-400" title={container.readinessError}>
+                  Unhealthy
+                </span>
+              )}
+              {container.lifecycle && <LifecycleCountdown lifecycle={container.lifecycle} />}
             </div>
             <p className="text-sm text-gray-400 truncate">
-              {container.image}
+              {isQueued ? container.status : container.image}
             </p>
+            {container.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {container.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-0.5 rounded-md bg-blue-500/10 text-xs font-mono text-blue-300"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {container.notes && (
+              <p className="mt-2 text-xs text-gray-400 whitespace-pre-wrap line-clamp-3" title={container.notes}>
+                {container.notes}
+              </p>
+            )}
+            {container.authorizedKeys.length > 0 && (
+              <p className="mt-2 flex items-center gap-1.5 text-xs text-gray-400" title="Registered keys allowed to SSH in">
+                <KeyRound className="h-3.5 w-3.5" />
+                {container.authorizedKeys.join(', ')}
+                {!container.includeAppKey && <span className="text-gray-500">(generated key not trusted)</span>}
+              </p>
+            )}
           </div>
 
+          {(isBuilding || isFailed) && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setShowBuildLog(!showBuildLog)}
+                className={`rounded-lg p-2 hover:bg-gray-700 transition-colors ${showBuildLog ? 'text-blue-400' : 'text-gray-400 hover:text-blue-400'}`}
+                title="Build log"
+              >
+                <ScrollText className="h-4 w-4" />
+              </button>
+              {isBuilding && (
+                <button
+                  onClick={() => {
+                    if (confirm(`Cancel build of "${container.name}"?`)) {
+                      cancelBuildMutation.mutate(container.id);
+                    }
+                  }}
+                  disabled={cancelBuildMutation.isPending}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-red-400 disabled:opacity-50 transition-colors"
+                  title="Cancel build"
+                >
+                  <Ban className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          )}
+
           {!isBuilding && (
             <div className="flex items-center gap-1">
-              {isRunning ? (
+              {isRunning && (
+                <button
+                  onClick={() => pauseMutation.mutate(container.id)}
+                  disabled={isPending}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-yellow-400 disabled:opacity-50 transition-colors"
+                  title="Pause"
+                >
+                  <Pause className="h-4 w-4" />
+                </button>
+              )}
+              {isPaused && (
+                <button
+                  onClick={() => unpauseMutation.mutate(container.id)}
+                  disabled={isPending}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-green-400 disabled:opacity-50 transition-colors"
+                  title="Resume"
+                >
+                  <Play className="h-4 w-4" />
+                </button>
+              )}
+              {isRunning && (
                 <button
-                  onClick={() => stopMutation.mutate(container.id)}
+                  onClick={() => restartMutation.mutate(container.id)}
                   disabled={isPending}
-                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-orange-400 disabled:opacity-50 transition-colors"
-                  title="Stop"
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-blue-400 disabled:opacity-50 transition-colors"
+                  title="Restart"
                 >
-                  <Square className="h-4 w-4" />
+                  <RotateCw className="h-4 w-4" />
                 </button>
+              )}
+              {isRunning || isPaused ? (
+                <>
+                  <button
+                    onClick={() => stopMutation.mutate(container.id)}
+                    disabled={isPending}
+                    className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-orange-400 disabled:opacity-50 transition-colors"
+                    title="Stop"
+                  >
+                    <Square className="h-4 w-4" />
+                  </button>
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowKillMenu(!showKillMenu)}
+                      disabled={isPending}
+                      className={`rounded-lg p-2 hover:bg-gray-700 disabled:opacity-50 transition-colors ${showKillMenu ? 'text-red-400' : 'text-gray-400 hover:text-red-400'}`}
+                      title="Send signal"
+                    >
+                      <Zap className="h-4 w-4" />
+                    </button>
+                    {showKillMenu && (
+                      <div className="absolute right-0 top-full z-10 mt-1 w-32 rounded-lg border border-gray-700 bg-gray-800 py-1 shadow-lg">
+                        {KILL_SIGNALS.map((signal) => (
+                          <button
+                            key={signal}
+                            onClick={() => {
+                              setShowKillMenu(false);
+                              killMutation.mutate({ id: container.id, signal });
+                            }}
+                            className="block w-full px-3 py-1.5 text-left font-mono text-xs text-gray-300 hover:bg-gray-700"
+                          >
+                            {signal}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
               ) : !isFailed && (
                 <button
                   onClick={() => startMutation.mutate(container.id)}
@@ -122,6 +314,53 @@ export function ContainerCard({ container }: ContainerCardProps) {
                   <Play className="h-4 w-4" />
                 </button>
               )}
+              {isRunning && (
+                <button
+                  onClick={() => setPanel(panel === 'terminal' ? null : 'terminal')}
+                  className={`rounded-lg p-2 hover:bg-gray-700 transition-colors ${panel === 'terminal' ? 'text-blue-400' : 'text-gray-400 hover:text-blue-400'}`}
+                  title="Terminal"
+                >
+                  <SquareTerminal className="h-4 w-4" />
+                </button>
+              )}
+              {!isFailed && (
+                <button
+                  onClick={() => setPanel(panel === 'logs' ? null : 'logs')}
+                  className={`rounded-lg p-2 hover:bg-gray-700 transition-colors ${panel === 'logs' ? 'text-blue-400' : 'text-gray-400 hover:text-blue-400'}`}
+                  title="Logs"
+                >
+                  <ScrollText className="h-4 w-4" />
+                </button>
+              )}
+              {!isFailed && (
+                <button
+                  onClick={() => setPanel(panel === 'snapshots' ? null : 'snapshots')}
+                  className={`rounded-lg p-2 hover:bg-gray-700 transition-colors ${panel === 'snapshots' ? 'text-blue-400' : 'text-gray-400 hover:text-blue-400'}`}
+                  title="Snapshots"
+                >
+                  <Camera className="h-4 w-4" />
+                </button>
+              )}
+              {!isFailed && (
+                <button
+                  onClick={() => setShowClone(true)}
+                  disabled={isPending}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-blue-400 disabled:opacity-50 transition-colors"
+                  title="Clone"
+                >
+                  <CopyPlus className="h-4 w-4" />
+                </button>
+              )}
+              {!isFailed && (
+                <button
+                  onClick={() => setShowMetadata(true)}
+                  disabled={isPending}
+                  className="rounded-lg p-2 text-gray-400 hover:bg-gray-700 hover:text-blue-400 disabled:opacity-50 transition-colors"
+                  title="Tags & notes"
+                >
+                  <Tag className="h-4 w-4" />
+                </button>
+              )}
               {!isFailed && (
                 <button
                   onClick={() => setShowReconfigure(true)}
@@ -151,6 +390,9 @@ export function ContainerCard({ container }: ContainerCardProps) {
 
       {/* Body */}
       <div className="px-5 py-4 space-y-4">
+        {/* Resource usage */}
+        {isRunning && stats && stats.length > 0 && <ContainerStatsPanel samples={stats} />}
+
         {/* SSH Connection */}
         {container.sshPort && sshCommand && (
           <div className="space-y-2">
@@ -187,6 +429,10 @@ export function ContainerCard({ container }: ContainerCardProps) {
                 </div>
               </div>
             </div>
+            <p className="text-xs text-gray-500">
+              Host keys are checked against {sshKeysPath}/acm_known_hosts, which the server keeps up to date (download
+              it from Settings if you connect from another machine). Keys not recorded yet are trusted on first use.
+            </p>
           </div>
         )}
 
@@ -242,6 +488,43 @@ export function ContainerCard({ container }: ContainerCardProps) {
             )}
           </div>
         )}
+
+        {/* Build log */}
+        {showBuildLog && (isBuilding || isFailed) && (
+          <BuildLogPanel buildId={container.id} />
+        )}
+
+        {/* Logs / Terminal */}
+        {panel && !isBuilding && !isFailed && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1">
+              {(['logs', 'terminal', 'snapshots'] as const).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setPanel(tab)}
+                  disabled={tab === 'terminal' && !isRunning}
+                  className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors disabled:opacity-50 ${
+                    panel === tab
+                      ? 'bg-gray-700 text-white'
+                      : 'text-gray-400 hover:bg-gray-700/50 hover:text-gray-200'
+                  }`}
+                >
+                  {panelLabels[tab]}
+                </button>
+              ))}
+              <button
+                onClick={() => setPanel(null)}
+                className="ml-auto rounded-md p-1 text-gray-500 hover:bg-gray-700 hover:text-gray-300 transition-colors"
+                title="Close"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {panel === 'logs' && <LogViewer container={container} />}
+            {panel === 'terminal' && isRunning && <TerminalView container={container} />}
+            {panel === 'snapshots' && <SnapshotTimeline container={container} />}
+          </div>
+        )}
       </div>
 
       {/* Footer */}
@@ -258,6 +541,22 @@ export function ContainerCard({ container }: ContainerCardProps) {
           onClose={() => setShowReconfigure(false)}
         />
       )}
+
+      {/* Clone Modal */}
+      {showClone && (
+        <CloneModal
+          container={container}
+          onClose={() => setShowClone(false)}
+        />
+      )}
+
+      {/* Tags & Notes Modal */}
+      {showMetadata && (
+        <EditMetadataModal
+          container={container}
+          onClose={() => setShowMetadata(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,9 +1,29 @@
-import { useContainers } from '../hooks/useContainers';
+import { useDeferredValue, useState } from 'react';
+import { useContainers, useStatsHistory } from '../hooks/useContainers';
 import { ContainerCard } from './ContainerCard';
-import { Loader2, Box } from 'lucide-react';
+import { BulkActionBar } from './BulkActionBar';
+import { formatBytes } from '../lib/utils';
+import { Loader2, Box, Activity, ListChecks, Tag, Layers, Search, X } from 'lucide-react';
+import type { ContainerInfo } from '../api/client';
+
+// Builds show up as pseudo-containers; only real containers can be selected
+const isSelectable = (container: ContainerInfo) =>
+  container.state !== 'queued' && container.state !== 'building' && container.state !== 'failed';
+
+const SEARCH_HELP =
+  'Words match the name. Filters: state:running,paused  tag:name  image:ubuntu  after:2024-06-01  before:…  sort:name|-created|state|image';
+
+// Search text split into tokens, so tag chips can add and remove "tag:" filters
+const tokenize = (search: string) => search.trim().split(/\s+/).filter(Boolean);
 
 export function ContainerList() {
-  const { data: containers, isLoading, error } = useContainers();
+  const [search, setSearch] = useState('');
+  const deferredSearch = useDeferredValue(search.trim());
+  const { data, isLoading, error } = useContainers(deferredSearch);
+  const { history, totals } = useStatsHistory();
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [groupByTag, setGroupByTag] = useState(false);
 
   if (isLoading) {
     return (
@@ -13,7 +33,8 @@ export function ContainerList() {
     );
   }
 
-  if (error) {
+  // A bad search shows its error under the search bar instead
+  if (error && !search) {
     return (
       <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
         Failed to load containers: {error.message}
@@ -21,7 +42,8 @@ export function ContainerList() {
     );
   }
 
-  if (!containers || containers.length === 0) {
+  const containers = data ?? [];
+  if (containers.length === 0 && !search) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-gray-500">
         <Box className="h-12 w-12 mb-4" />
@@ -31,11 +53,156 @@ export function ContainerList() {
     );
   }
 
-  return (
+  const runningCount = Object.keys(history).length;
+  const tokens = tokenize(search);
+  const activeTags = tokens.filter((t) => t.startsWith('tag:')).flatMap((t) => t.slice(4).split(','));
+  const allTags = [...new Set([...containers.flatMap((c) => c.tags), ...activeTags])].filter(Boolean).sort();
+  const selectable = containers.filter(isSelectable);
+
+  const toggleTag = (tag: string) => {
+    const rest = tokens.filter((t) => t !== `tag:${tag}`);
+    setSearch((rest.length === tokens.length ? [...tokens, `tag:${tag}`] : rest).join(' '));
+  };
+  const clearTags = () => setSearch(tokens.filter((t) => !t.startsWith('tag:')).join(' '));
+  // Drop selections for containers that have since gone away
+  const selectedIds = selectable.filter((c) => selected.has(c.id)).map((c) => c.id);
+
+  const toggle = (id: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  // One group per tag (a container shows up under each of its tags), untagged last
+  const groups: Array<{ tag: string | null; containers: ContainerInfo[] }> = groupByTag
+    ? [
+        ...allTags
+          .map((tag) => ({ tag, containers: containers.filter((c) => c.tags.includes(tag)) })),
+        { tag: null, containers: containers.filter((c) => c.tags.length === 0) },
+      ].filter((group) => group.containers.length > 0)
+    : [{ tag: null, containers: containers }];
+
+  const renderGrid = (list: ContainerInfo[]) => (
     <div className="grid gap-6 lg:grid-cols-2">
-      {containers.map((container) => (
-        <ContainerCard key={container.id} container={container} />
+      {list.map((container) => (
+        <ContainerCard
+          key={container.id}
+          container={container}
+          stats={history[container.id]}
+          selection={selecting && isSelectable(container)
+            ? { selected: selected.has(container.id), onToggle: () => toggle(container.id) }
+            : undefined}
+        />
       ))}
     </div>
   );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+        {totals && runningCount > 0 && (
+          <>
+            <Activity className="h-4 w-4" />
+            <span>{runningCount} running</span>
+            <span>CPU {totals.cpuPercent.toFixed(1)}%</span>
+            <span>Memory {formatBytes(totals.memoryUsage)}</span>
+            <span>{totals.pids} processes</span>
+          </>
+        )}
+        {!selecting && selectable.length > 0 && (
+          <button
+            onClick={() => setSelecting(true)}
+            className="ml-auto flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-gray-400 hover:bg-gray-700 hover:text-gray-200 transition-colors"
+          >
+            <ListChecks className="h-4 w-4" />
+            Select
+          </button>
+        )}
+      </div>
+      <div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search containers, e.g. agent state:running tag:project-x sort:name"
+            title={SEARCH_HELP}
+            className="w-full rounded-lg border border-gray-700 bg-gray-800/50 pl-9 pr-9 py-2 text-sm text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {search && (
+            <button
+              onClick={() => setSearch('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-gray-500 hover:text-gray-300"
+              title="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {error && <p className="mt-1 text-sm text-red-400">{error.message}</p>}
+      </div>
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-sm">
+          <Tag className="h-4 w-4 text-gray-500 mr-1" />
+          <button
+            onClick={clearTags}
+            className={`px-2 py-0.5 rounded-md text-xs ${activeTags.length === 0 ? 'bg-blue-500/20 text-blue-300' : 'text-gray-400 hover:bg-gray-700'}`}
+          >
+            All
+          </button>
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2 py-0.5 rounded-md text-xs font-mono ${activeTags.includes(tag) ? 'bg-blue-500/20 text-blue-300' : 'text-gray-400 hover:bg-gray-700'}`}
+            >
+              {tag}
+            </button>
+          ))}
+          <button
+            onClick={() => setGroupByTag(!groupByTag)}
+            className={`ml-auto flex items-center gap-1.5 rounded-lg px-2.5 py-1 text-xs ${groupByTag ? 'bg-blue-500/20 text-blue-300' : 'text-gray-400 hover:bg-gray-700'}`}
+          >
+            <Layers className="h-3.5 w-3.5" />
+            Group by tag
+          </button>
+        </div>
+      )}
+      {selecting && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          totalSelectable={selectable.length}
+          onSelectAll={() => setSelected(new Set(selectable.map((c) => c.id)))}
+          onClear={() => setSelected(new Set())}
+          onDone={exitSelection}
+        />
+      )}
+      {groupByTag
+        ? groups.map((group) => (
+            <section key={group.tag ?? ''} className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-400">
+                {group.tag ? <span className="font-mono">{group.tag}</span> : 'Untagged'}
+                <span className="ml-2 text-gray-600">{group.containers.length}</span>
+              </h3>
+              {renderGrid(group.containers)}
+            </section>
+          ))
+        : renderGrid(containers)}
+      {containers.length === 0 && (
+        <p className="py-8 text-center text-sm text-gray-500">No containers match this search</p>
+      )}
+    </div>
+  );
 }
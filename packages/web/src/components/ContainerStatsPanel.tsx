@@ -0,0 +1,59 @@
+import { Activity } from 'lucide-react';
+import type { ContainerStats } from '../api/client';
+import { Sparkline } from './Sparkline';
+import { formatBytes } from '../lib/utils';
+
+interface ContainerStatsPanelProps {
+  samples: ContainerStats[];
+}
+
+export function ContainerStatsPanel({ samples }: ContainerStatsPanelProps) {
+  const current = samples[samples.length - 1];
+  if (!current) return null;
+
+  // Flag containers pinning more than a core or close to their memory limit
+  const cpuHot = current.cpuPercent > 90;
+  const memoryHot = current.memoryPercent > 90;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <Activity className="h-4 w-4 text-gray-500" />
+        <span>Resource Usage</span>
+        <span className="text-gray-500">•</span>
+        <span className="text-gray-400 font-normal">{current.pids} processes</span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="rounded-lg bg-gray-900/70 border border-gray-700/50 p-3">
+          <div className="flex items-baseline justify-between text-xs">
+            <span className="text-gray-500">CPU</span>
+            <span className={cpuHot ? 'text-red-400 font-medium' : 'text-gray-300'}>
+              {current.cpuPercent.toFixed(1)}%
+            </span>
+          </div>
+          <Sparkline
+            values={samples.map((s) => s.cpuPercent)}
+            className={`mt-1 w-full ${cpuHot ? 'text-red-400' : 'text-blue-400'}`}
+          />
+        </div>
+        <div className="rounded-lg bg-gray-900/70 border border-gray-700/50 p-3">
+          <div className="flex items-baseline justify-between text-xs">
+            <span className="text-gray-500">Memory</span>
+            <span className={memoryHot ? 'text-red-400 font-medium' : 'text-gray-300'}>
+              {formatBytes(current.memoryUsage)} / {formatBytes(current.memoryLimit)}
+            </span>
+          </div>
+          <Sparkline
+            values={samples.map((s) => s.memoryPercent)}
+            max={100}
+            className={`mt-1 w-full ${memoryHot ? 'text-red-400' : 'text-green-400'}`}
+          />
+        </div>
+      </div>
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span>Net ↓ {formatBytes(current.networkRx)} ↑ {formatBytes(current.networkTx)}</span>
+        <span>Disk read {formatBytes(current.blockRead)} · write {formatBytes(current.blockWrite)}</span>
+      </div>
+    </div>
+  );
+}
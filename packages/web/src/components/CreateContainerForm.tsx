@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import { X, Loader2, Plus } from 'lucide-react';
-import { useCreateContainer, useVolumes, useImages } from '../hooks/useContainers';
+import { useCreateContainer, useVolumes, useImages, useConfig, useSshKeys } from '../hooks/useContainers';
+import { ResourceLimitsFields } from './ResourceLimitsFields';
+import { parseTags } from '../lib/utils';
+import type { ResourceLimits, SshKeyMode } from '../api/client';
 
 interface CreateContainerFormProps {
   onClose: () => void;
@@ -19,10 +22,22 @@ export function CreateContainerForm({ onClose }: CreateContainerFormProps) {
   ]);
   const [newContainerPort, setNewContainerPort] = useState('');
   const [newHostPort, setNewHostPort] = useState('');
+  const [priority, setPriority] = useState(0);
+  const [resources, setResources] = useState<ResourceLimits>({});
+  const [ttl, setTtl] = useState(0);
+  const [idleTimeout, setIdleTimeout] = useState(0);
+  const [expiryAction, setExpiryAction] = useState<'stop' | 'remove'>('stop');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [sshKeyMode, setSshKeyMode] = useState<SshKeyMode | ''>(''); // '' uses the configured default
+  const [authorizedKeys, setAuthorizedKeys] = useState<string[]>([]);
+  const [includeAppKey, setIncludeAppKey] = useState(true);
 
   const createMutation = useCreateContainer();
   const { data: volumes } = useVolumes();
   const { data: images } = useImages();
+  const { data: config } = useConfig();
+  const { data: sshKeys } = useSshKeys();
 
   // Default to first built image if available, otherwise ubuntu
   const defaultImage = images?.flatMap((i) => i.repoTags).find((tag) => tag && tag !== '<none>:<none>') || 'ubuntu:24.04';
@@ -37,6 +52,17 @@ export function CreateContainerForm({ onClose }: CreateContainerFormProps) {
         image: selectedImage,
         volumes: selectedVolumes.length > 0 ? selectedVolumes : undefined,
         ports: ports.length > 0 ? ports : undefined,
+        priority: priority || undefined,
+        resources,
+        ttl: ttl || undefined,
+        idleTimeout: idleTimeout || undefined,
+        expiryAction: ttl || idleTimeout ? expiryAction : undefined,
+        tags: parseTags(tags),
+        notes: notes || undefined,
+        sshKeyMode: sshKeyMode || undefined,
+        authorizedKeys: authorizedKeys.length > 0 ? authorizedKeys : undefined,
+        // Without a registered key, the generated key is the only way in
+        includeAppKey: authorizedKeys.length > 0 ? includeAppKey : undefined,
       });
       onClose();
     } catch (error) {
@@ -68,6 +94,25 @@ export function CreateContainerForm({ onClose }: CreateContainerFormProps) {
     setPorts(ports.filter((_, i) => i !== index));
   };
 
+  // Auto-stop choices in seconds; 0 = never
+  const ttlOptions = [
+    { value: 0, label: 'Never' },
+    { value: 3600, label: '1 hour' },
+    { value: 4 * 3600, label: '4 hours' },
+    { value: 8 * 3600, label: '8 hours' },
+    { value: 24 * 3600, label: '1 day' },
+    { value: 3 * 86400, label: '3 days' },
+    { value: 7 * 86400, label: '1 week' },
+  ];
+  const idleOptions = [
+    { value: 0, label: 'Never' },
+    { value: 15 * 60, label: '15 minutes' },
+    { value: 30 * 60, label: '30 minutes' },
+    { value: 3600, label: '1 hour' },
+    { value: 2 * 3600, label: '2 hours' },
+    { value: 4 * 3600, label: '4 hours' },
+  ];
+
   // Common base images
   const commonImages = [
     'ubuntu:24.04',
@@ -143,6 +188,177 @@ export function CreateContainerForm({ onClose }: CreateContainerFormProps) {
             </p>
           </div>
 
+          {/* Tags & notes */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="project-x, ticket-123"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Comma or space separated. Used to filter and group containers.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              maxLength={2000}
+              placeholder="What is this container for?"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          {/* SSH key */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              SSH Key
+            </label>
+            <select
+              value={sshKeyMode}
+              onChange={(e) => setSshKeyMode(e.target.value as SshKeyMode | '')}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">Default ({config?.sshKeyMode === 'container' ? 'own keypair' : 'shared app key'})</option>
+              <option value="shared">Shared app key</option>
+              <option value="container">Own keypair</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              An own keypair is generated when the container starts and replaces the app key inside it.
+            </p>
+          </div>
+
+          {sshKeys && sshKeys.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Authorized Keys
+              </label>
+              <div className="space-y-2 rounded-md border border-gray-300 dark:border-gray-600 p-3">
+                {sshKeys.map((key) => (
+                  <label key={key.name} className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={authorizedKeys.includes(key.name)}
+                      onChange={(e) => {
+                        setAuthorizedKeys(e.target.checked
+                          ? [...authorizedKeys, key.name]
+                          : authorizedKeys.filter((k) => k !== key.name));
+                      }}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">{key.name}</span>
+                    <span className="truncate font-mono text-xs text-gray-500">{key.fingerprint}</span>
+                  </label>
+                ))}
+              </div>
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeAppKey}
+                  onChange={(e) => setIncludeAppKey(e.target.checked)}
+                  disabled={authorizedKeys.length === 0}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Also trust the generated key
+              </label>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Selected keys are written to authorized_keys at every start; removing a key revokes it.
+              </p>
+            </div>
+          )}
+
+          {/* Build priority */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Build Priority
+            </label>
+            <input
+              type="number"
+              min={-100}
+              max={100}
+              value={priority}
+              onChange={(e) => setPriority(Math.min(100, Math.max(-100, parseInt(e.target.value, 10) || 0)))}
+              className="mt-1 w-24 rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Higher priority builds leave the queue first when the build limit is reached.
+            </p>
+          </div>
+
+          {/* Resource limits */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Resource Limits
+            </label>
+            <ResourceLimitsFields
+              value={resources}
+              onChange={setResources}
+              defaults={config?.resourceDefaults}
+              maximums={config?.resourceMaximums}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave empty to use the defaults from settings.
+            </p>
+          </div>
+
+          {/* Auto-stop */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Auto-Stop
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Expire after
+                <select
+                  value={ttl}
+                  onChange={(e) => setTtl(parseInt(e.target.value, 10))}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                >
+                  {ttlOptions.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                When idle for
+                <select
+                  value={idleTimeout}
+                  onChange={(e) => setIdleTimeout(parseInt(e.target.value, 10))}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                >
+                  {idleOptions.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Then
+                <select
+                  value={expiryAction}
+                  onChange={(e) => setExpiryAction(e.target.value as 'stop' | 'remove')}
+                  disabled={!ttl && !idleTimeout}
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-2 text-sm disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="stop">Stop</option>
+                  <option value="remove">Remove</option>
+                </select>
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Idle means no SSH sessions, no open terminal and no CPU activity. Volumes are kept either way.
+            </p>
+          </div>
+
           {/* Volumes */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
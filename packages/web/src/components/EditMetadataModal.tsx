@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { X, Loader2, Tag } from 'lucide-react';
+import { useUpdateContainerMetadata } from '../hooks/useContainers';
+import { parseTags } from '../lib/utils';
+import type { ContainerInfo } from '../api/client';
+
+interface EditMetadataModalProps {
+  container: ContainerInfo;
+  onClose: () => void;
+}
+
+export function EditMetadataModal({ container, onClose }: EditMetadataModalProps) {
+  const [tags, setTags] = useState(container.tags.join(', '));
+  const [notes, setNotes] = useState(container.notes || '');
+
+  const updateMutation = useUpdateContainerMetadata();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateMutation.mutateAsync({ id: container.id, tags: parseTags(tags), notes });
+      onClose();
+    } catch (error) {
+      console.error('Failed to update container metadata:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold dark:text-white flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Tags & Notes
+          </h2>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {container.state === 'running' && (
+          <div className="mb-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400">
+            Docker can't change labels in place, so <strong>{container.name}</strong> will be snapshotted
+            and recreated. It restarts briefly and gets a new container ID.
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Tags
+            </label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="project-x, ticket-123"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Comma or space separated; lowercase letters, digits, '-', '_' and '.'.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          {updateMutation.error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              {updateMutation.error.message}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={updateMutation.isPending}
+              className="flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState } from 'react';
-import { Trash2, Box, Loader2, HardDrive } from 'lucide-react';
+import { Trash2, Box, Loader2, HardDrive, Eraser } from 'lucide-react';
 import { useImages } from '../hooks/useContainers';
 import * as api from '../api/client';
 
 export function ImageList() {
   const { data: images, isLoading, refetch } = useImages();
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isPruning, setIsPruning] = useState(false);
 
   const handleDelete = async (id: string, tag: string) => {
     if (!confirm(`Delete image "${tag}"?`)) return;
@@ -20,6 +21,21 @@ export function ImageList() {
     setDeletingId(null);
   };
 
+  const handlePruneBaseImages = async () => {
+    if (!confirm('Remove shared base images that no container uses?')) return;
+
+    setIsPruning(true);
+    try {
+      await api.pruneBaseImages();
+      refetch();
+    } catch (error) {
+      console.error('Failed to prune base images:', error);
+    }
+    setIsPruning(false);
+  };
+
+  const unusedBaseImages = images?.filter((i) => i.baseImage && i.containerCount === 0).length ?? 0;
+
   const formatSize = (bytes: number) => {
     if (bytes < 1024 * 1024) {
       return `${(bytes / 1024).toFixed(1)} KB`;
@@ -62,7 +78,7 @@ export function ImageList() {
 
   return (
     <div className="rounded-lg border bg-white dark:bg-gray-800">
-      <div className="border-b px-4 py-3 dark:border-gray-700">
+      <div className="flex items-center justify-between border-b px-4 py-3 dark:border-gray-700">
         <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
           <Box className="h-5 w-5" />
           Built Images
@@ -70,6 +86,17 @@ export function ImageList() {
             {images.length}
           </span>
         </h3>
+        {unusedBaseImages > 0 && (
+          <button
+            onClick={handlePruneBaseImages}
+            disabled={isPruning}
+            className="flex items-center gap-1.5 rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-700"
+            title="Remove shared base images no container uses"
+          >
+            {isPruning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eraser className="h-4 w-4" />}
+            Prune unused ({unusedBaseImages})
+          </button>
+        )}
       </div>
 
       <div className="divide-y dark:divide-gray-700">
@@ -87,6 +114,11 @@ export function ImageList() {
                   <span className="font-medium text-gray-900 dark:text-white truncate">
                     {tag}
                   </span>
+                  {image.baseImage && (
+                    <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700 dark:bg-blue-500/20 dark:text-blue-400">
+                      shared · {image.baseImage}
+                    </span>
+                  )}
                 </div>
                 <div className="mt-1 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
                   <span className="flex items-center gap-1">
@@ -94,6 +126,9 @@ export function ImageList() {
                     {formatSize(image.size)}
                   </span>
                   <span>Created: {formatDate(image.created)}</span>
+                  <span>
+                    {image.containerCount === 1 ? '1 container' : `${image.containerCount} containers`}
+                  </span>
                 </div>
                 <div className="mt-1 text-xs text-gray-400 dark:text-gray-500 font-mono truncate">
                   {image.id.replace('sha256:', '').substring(0, 12)}
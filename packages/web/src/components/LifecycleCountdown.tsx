@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import type { ContainerLifecycle } from '../api/client';
+
+interface LifecycleCountdownProps {
+  lifecycle: ContainerLifecycle;
+}
+
+// Time left before the server stops or removes the container, whichever of
+// the TTL and idle deadlines comes first
+export function LifecycleCountdown({ lifecycle }: LifecycleCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiresAt = lifecycle.expiresAt ? Date.parse(lifecycle.expiresAt) : Infinity;
+  const idleStopAt = lifecycle.idleStopAt ? Date.parse(lifecycle.idleStopAt) : Infinity;
+  const deadline = Math.min(expiresAt, idleStopAt);
+  if (deadline === Infinity) {
+    return null;
+  }
+
+  const verb = lifecycle.action === 'remove' ? 'Removed' : 'Stopped';
+  const reason = idleStopAt < expiresAt ? 'if idle' : 'at TTL';
+  const remaining = deadline - now;
+  const urgent = remaining < 5 * 60 * 1000;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${urgent ? 'bg-orange-500/20 text-orange-400' : 'bg-gray-700/60 text-gray-400'}`}
+      title={`${verb} ${reason} at ${new Date(deadline).toLocaleString()}`}
+    >
+      <Hourglass className="h-3 w-3" />
+      {remaining > 0 ? formatRemaining(remaining) : 'Expired'}
+    </span>
+  );
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Search, Download, Pause, ArrowDown, Clock } from 'lucide-react';
+import type { ContainerInfo, ContainerLogLine } from '../api/client';
+import { streamContainerLogs } from '../api/client';
+
+const MAX_LINES = 5000;
+const INITIAL_TAIL = 500;
+
+interface LogViewerProps {
+  container: ContainerInfo;
+}
+
+export function LogViewer({ container }: LogViewerProps) {
+  const [lines, setLines] = useState<ContainerLogLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [showTimestamps, setShowTimestamps] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [streamState, setStreamState] = useState<'streaming' | 'ended' | 'error'>('streaming');
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // (Re)connect whenever the container restarts so the log follows it
+  useEffect(() => {
+    setLines([]);
+    setStreamState('streaming');
+    setError(null);
+
+    return streamContainerLogs(
+      container.id,
+      { follow: true, tail: INITIAL_TAIL, timestamps: true },
+      (line) => {
+        setLines((prev) => {
+          const next = [...prev, line];
+          return next.length > MAX_LINES ? next.slice(next.length - MAX_LINES) : next;
+        });
+      },
+      () => setStreamState('ended'),
+      (message) => {
+        setError(message);
+        setStreamState('error');
+      }
+    );
+  }, [container.id, container.state]);
+
+  const visibleLines = useMemo(() => {
+    if (!search) return lines;
+    const needle = search.toLowerCase();
+    return lines.filter((line) => line.text.toLowerCase().includes(needle));
+  }, [lines, search]);
+
+  // Auto-scroll unless the user has scrolled up to read
+  useEffect(() => {
+    if (!isPaused && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [visibleLines, isPaused]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+    setIsPaused(!atBottom);
+  };
+
+  const handleResume = () => {
+    setIsPaused(false);
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  };
+
+  const handleDownload = () => {
+    const text = lines
+      .map((line) => (line.timestamp ? `${line.timestamp} ${line.text}` : line.text))
+      .join('\n');
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${container.name}.log`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const highlight = (text: string) => {
+    if (!search) return text;
+    const parts = text.split(new RegExp(`(${search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'));
+    return parts.map((part, i) =>
+      part.toLowerCase() === search.toLowerCase() ? (
+        <mark key={i} className="bg-yellow-500/40 text-inherit rounded-sm">{part}</mark>
+      ) : (
+        part
+      )
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-900/70 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700/50">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search logs"
+            className="w-full rounded-md bg-gray-800 border border-gray-700 pl-7 pr-2 py-1 text-xs text-gray-200 placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <button
+          onClick={() => setShowTimestamps(!showTimestamps)}
+          className={`rounded-md p-1.5 transition-colors hover:bg-gray-700 ${showTimestamps ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          title="Toggle timestamps"
+        >
+          <Clock className="h-4 w-4" />
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={lines.length === 0}
+          className="rounded-md p-1.5 text-gray-500 hover:bg-gray-700 hover:text-gray-300 disabled:opacity-50 transition-colors"
+          title="Download logs"
+        >
+          <Download className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Log output */}
+      <div className="relative">
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          className="h-64 overflow-auto px-3 py-2 font-mono text-xs"
+        >
+          {visibleLines.length === 0 ? (
+            <p className="text-gray-500">
+              {streamState === 'error' ? error : search ? 'No matching lines' : 'No output yet'}
+            </p>
+          ) : (
+            <pre className="whitespace-pre-wrap break-all">
+              {visibleLines.map((line, i) => (
+                <div
+                  key={i}
+                  className={line.stream === 'stderr' ? 'text-red-400' : 'text-gray-300'}
+                >
+                  {showTimestamps && line.timestamp && (
+                    <span className="text-gray-600 mr-2">{line.timestamp}</span>
+                  )}
+                  {highlight(line.text)}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+
+        {isPaused && (
+          <button
+            onClick={handleResume}
+            className="absolute bottom-2 right-4 flex items-center gap-1.5 rounded-full bg-blue-600 px-3 py-1 text-xs font-medium text-white shadow-lg hover:bg-blue-700"
+          >
+            <Pause className="h-3 w-3" />
+            Paused
+            <ArrowDown className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {/* Status */}
+      <div className="px-3 py-1.5 border-t border-gray-700/50 text-xs text-gray-500">
+        {streamState === 'streaming' && 'Following output'}
+        {streamState === 'ended' && 'Log stream ended'}
+        {streamState === 'error' && <span className="text-red-400">{error}</span>}
+        {search && ` • ${visibleLines.length} of ${lines.length} lines`}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { X, Loader2, Plus, Settings } from 'lucide-react';
-import { useReconfigureContainer, useVolumes } from '../hooks/useContainers';
-import type { ContainerInfo } from '../api/client';
+import { useReconfigureContainer, useVolumes, useContainer, useConfig } from '../hooks/useContainers';
+import { ResourceLimitsFields } from './ResourceLimitsFields';
+import type { ContainerInfo, ResourceLimits } from '../api/client';
 
 interface ReconfigureModalProps {
   container: ContainerInfo;
@@ -17,9 +18,19 @@ export function ReconfigureModal({ container, onClose }: ReconfigureModalProps)
   );
   const [newContainerPort, setNewContainerPort] = useState('');
   const [newHostPort, setNewHostPort] = useState('');
+  const [resources, setResources] = useState<ResourceLimits>({});
 
   const reconfigureMutation = useReconfigureContainer();
   const { data: volumes } = useVolumes();
+  const { data: config } = useConfig();
+  // The container list doesn't include limits; fetch them from the detail endpoint
+  const { data: details } = useContainer(container.id);
+
+  useEffect(() => {
+    if (details?.resources) {
+      setResources(details.resources);
+    }
+  }, [details?.resources]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,6 +40,7 @@ export function ReconfigureModal({ container, onClose }: ReconfigureModalProps)
         id: container.id,
         volumes: selectedVolumes.length > 0 ? selectedVolumes : undefined,
         ports: ports.length > 0 ? ports : undefined,
+        resources,
       });
       onClose();
     } catch (error) {
@@ -67,7 +79,7 @@ export function ReconfigureModal({ container, onClose }: ReconfigureModalProps)
         </div>
 
         <div className="mb-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
-          This will recreate the container with new settings. The container will be stopped and restarted with a new SSH port.
+          This will recreate the container with new settings. Its filesystem is saved to a snapshot image first, so installed packages and files are kept. The container will be stopped and restarted; if the new one fails to start, the original is restored.
         </div>
 
         <div className="mb-4 text-sm text-gray-600 dark:text-gray-400">
@@ -184,6 +196,22 @@ export function ReconfigureModal({ container, onClose }: ReconfigureModalProps)
             </p>
           </div>
 
+          {/* Resource limits */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Resource Limits
+            </label>
+            <ResourceLimitsFields
+              value={resources}
+              onChange={setResources}
+              defaults={config?.resourceDefaults}
+              maximums={config?.resourceMaximums}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave empty to use the defaults from settings.
+            </p>
+          </div>
+
           {/* Error message */}
           {reconfigureMutation.error && (
             <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
@@ -0,0 +1,53 @@
+import type { ResourceLimits } from '../api/client';
+
+interface ResourceLimitsFieldsProps {
+  value: ResourceLimits;
+  onChange: (value: ResourceLimits) => void;
+  defaults?: ResourceLimits;
+  maximums?: ResourceLimits;
+}
+
+const FIELDS: Array<{ key: keyof ResourceLimits; label: string; unit?: string; step?: number; min: number }> = [
+  { key: 'cpus', label: 'CPUs', step: 0.25, min: 0.25 },
+  { key: 'memory', label: 'Memory', unit: 'MiB', min: 6 },
+  { key: 'memorySwap', label: 'Memory + swap', unit: 'MiB', min: -1 },
+  { key: 'pidsLimit', label: 'Processes', min: 1 },
+  { key: 'storageSize', label: 'Storage', unit: 'GiB', min: 1 },
+];
+
+// Number inputs for container resource limits; an empty field means "use the default"
+export function ResourceLimitsFields({ value, onChange, defaults = {}, maximums = {} }: ResourceLimitsFieldsProps) {
+  const update = (key: keyof ResourceLimits, raw: string) => {
+    const parsed = parseFloat(raw);
+    onChange({ ...value, [key]: Number.isNaN(parsed) ? undefined : parsed });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {FIELDS.map(({ key, label, unit, step, min }) => {
+        const fallback = defaults[key] ?? maximums[key];
+        return (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+              {label}
+              {unit && <span className="font-normal"> ({unit})</span>}
+            </label>
+            <input
+              type="number"
+              value={value[key] ?? ''}
+              onChange={(e) => update(key, e.target.value)}
+              placeholder={fallback !== undefined ? String(fallback) : 'Unlimited'}
+              step={step ?? 1}
+              min={min}
+              max={maximums[key]}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            {maximums[key] !== undefined && (
+              <p className="mt-0.5 text-xs text-gray-400">Max {maximums[key]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
-import { X, FolderOpen, Loader2 } from 'lucide-react';
+import { X, FolderOpen, Loader2, Layers, Gauge, Timer, KeyRound, FileCode, Download, HeartPulse, Network } from 'lucide-react';
 import { useConfig, useUpdateConfig } from '../hooks/useContainers';
 import { DirectoryPicker } from './DirectoryPicker';
+import { ResourceLimitsFields } from './ResourceLimitsFields';
+import { SshKeyRotation } from './SshKeyRotation';
+import { downloadSshConfig, downloadKnownHosts } from '../api/client';
+import type { ResourceLimits, SshKeyMode } from '../api/client';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -13,10 +17,32 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
 
   const [dataDirectory, setDataDirectory] = useState('');
   const [showDataDirPicker, setShowDataDirPicker] = useState(false);
+  const [maxConcurrentBuilds, setMaxConcurrentBuilds] = useState(2);
+  const [stopTimeout, setStopTimeout] = useState(10);
+  const [sshKeyMode, setSshKeyMode] = useState<SshKeyMode>('shared');
+  const [writeSshConfig, setWriteSshConfig] = useState(false);
+  const [stableHostKeys, setStableHostKeys] = useState(false);
+  const [readinessTimeout, setReadinessTimeout] = useState(60);
+  const [healthCommand, setHealthCommand] = useState('');
+  const [sshGateway, setSshGateway] = useState(false);
+  const [sshGatewayPort, setSshGatewayPort] = useState(2200);
+  const [resourceDefaults, setResourceDefaults] = useState<ResourceLimits>({});
+  const [resourceMaximums, setResourceMaximums] = useState<ResourceLimits>({});
 
   useEffect(() => {
     if (config) {
       setDataDirectory(config.dataDirectory || '');
+      setMaxConcurrentBuilds(config.maxConcurrentBuilds);
+      setStopTimeout(config.stopTimeout);
+      setSshKeyMode(config.sshKeyMode);
+      setWriteSshConfig(config.writeSshConfig);
+      setStableHostKeys(config.stableHostKeys);
+      setReadinessTimeout(config.readinessTimeout);
+      setHealthCommand(config.healthCommand);
+      setSshGateway(config.sshGateway);
+      setSshGatewayPort(config.sshGatewayPort);
+      setResourceDefaults(config.resourceDefaults);
+      setResourceMaximums(config.resourceMaximums);
     }
   }, [config]);
 
@@ -25,12 +51,39 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
     await updateMutation.mutateAsync({
       sshKeysDisplayPath: sshKeysPath || '~/.ssh',
       dataDirectory: dataDirectory || undefined,
+      maxConcurrentBuilds,
+      stopTimeout,
+      sshKeyMode,
+      writeSshConfig,
+      stableHostKeys,
+      readinessTimeout,
+      healthCommand,
+      sshGateway,
+      sshGatewayPort,
+      resourceDefaults,
+      resourceMaximums,
     });
     onClose();
   };
 
   const sshKeysPath = dataDirectory ? `${dataDirectory}/ssh-keys` : '(default)';
 
+  const handleDownload = async (download: () => Promise<Blob>, filename: string) => {
+    try {
+      const blob = await download();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Failed to download ${filename}:`, error);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
@@ -43,7 +96,7 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto rounded-lg bg-white p-6 shadow-xl dark:bg-gray-800">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-semibold dark:text-white">Settings</h2>
           <button
@@ -79,6 +132,209 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
             </div>
           </div>
 
+          {/* Build concurrency */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <Layers className="inline h-4 w-4 mr-1" />
+              Concurrent Builds
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Container builds beyond this limit wait in a queue.
+            </p>
+            <input
+              type="number"
+              min={1}
+              max={32}
+              value={maxConcurrentBuilds}
+              onChange={(e) => setMaxConcurrentBuilds(Math.min(32, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+              className="w-24 rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          {/* Stop timeout */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <Timer className="inline h-4 w-4 mr-1" />
+              Stop Timeout (seconds)
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              How long a stopping or restarting container gets to shut down before it's killed.
+            </p>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={stopTimeout}
+              onChange={(e) => setStopTimeout(Math.min(600, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              className="w-24 rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          {/* Readiness */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <HeartPulse className="inline h-4 w-4 mr-1" />
+              Readiness Check
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Builds wait for sshd to answer on the container's SSH port, or for this command to exit 0 inside
+              the container, and fail if it doesn't happen within the timeout.
+            </p>
+            <input
+              type="text"
+              value={healthCommand}
+              onChange={(e) => setHealthCommand(e.target.value)}
+              placeholder="Wait for the SSH banner"
+              className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <div className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="number"
+                min={5}
+                max={900}
+                value={readinessTimeout}
+                onChange={(e) => setReadinessTimeout(Math.min(900, Math.max(5, parseInt(e.target.value, 10) || 5)))}
+                className="w-24 rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              />
+              seconds
+            </div>
+          </div>
+
+          {/* SSH key mode */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <KeyRound className="inline h-4 w-4 mr-1" />
+              SSH Keys
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Default for new containers: one app-wide key, or a keypair generated for each container.
+            </p>
+            <select
+              value={sshKeyMode}
+              onChange={(e) => setSshKeyMode(e.target.value as SshKeyMode)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="shared">Shared app key</option>
+              <option value="container">Keypair per container</option>
+            </select>
+          </div>
+
+          {/* ssh_config */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <FileCode className="inline h-4 w-4 mr-1" />
+              SSH Config
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              A <code>Host acm-&lt;name&gt;</code> entry per container, so <code>ssh acm-&lt;name&gt;</code> and
+              VS Code Remote-SSH just work. Add <code>Include {config?.sshKeysDisplayPath || '~/.ssh'}/acm.config</code> to
+              the top of ~/.ssh/config. The acm_known_hosts file it and the copied ssh commands use is always kept next
+              to it; download both when connecting from another machine.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={writeSshConfig}
+                onChange={(e) => setWriteSshConfig(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Keep <code className="font-mono text-xs">{config?.sshKeysDisplayPath || '~/.ssh'}/acm.config</code> up to date
+            </label>
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={stableHostKeys}
+                onChange={(e) => setStableHostKeys(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Keep each container's host key across rebuilds
+            </label>
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleDownload(downloadSshConfig, 'acm.config')}
+                className="flex items-center gap-1.5 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <Download className="h-4 w-4" />
+                acm.config
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDownload(downloadKnownHosts, 'acm_known_hosts')}
+                className="flex items-center gap-1.5 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <Download className="h-4 w-4" />
+                acm_known_hosts
+              </button>
+            </div>
+          </div>
+
+          {/* SSH gateway */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <Network className="inline h-4 w-4 mr-1" />
+              SSH Gateway
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Reach every container through one port as <code>ssh &lt;name&gt;@host -p {sshGatewayPort}</code>, using
+              the app key or the container's registered keys. New containers then get no SSH port of their own, so the
+              gateway stays on until they're removed; the server must be able to reach container IPs on the Docker
+              network.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={sshGateway}
+                onChange={(e) => setSshGateway(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Enable on port
+              <input
+                type="number"
+                min={1}
+                max={65535}
+                value={sshGatewayPort}
+                onChange={(e) => setSshGatewayPort(Math.min(65535, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                className="w-24 rounded-md border border-gray-300 px-3 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+          </div>
+
+          {/* App key rotation */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <KeyRound className="inline h-4 w-4 mr-1" />
+              Rotate App Key
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Generates a new acm.pem without rebuilding images. Download the new key afterwards.
+            </p>
+            <SshKeyRotation />
+          </div>
+
+          {/* Resource limits */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <Gauge className="inline h-4 w-4 mr-1" />
+              Default Resource Limits
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Applied to containers that don't set their own limits.
+            </p>
+            <ResourceLimitsFields value={resourceDefaults} onChange={setResourceDefaults} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              <Gauge className="inline h-4 w-4 mr-1" />
+              Maximum Resource Limits
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Requests above these are rejected; empty means no cap.
+            </p>
+            <ResourceLimitsFields value={resourceMaximums} onChange={setResourceMaximums} />
+          </div>
+
           {/* Preview */}
           <div className="rounded-md bg-gray-50 dark:bg-gray-900 p-3 overflow-hidden space-y-2">
             <div>
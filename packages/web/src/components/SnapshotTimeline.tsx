@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Camera, Loader2, RotateCcw, Trash2, HardDrive } from 'lucide-react';
+import type { ContainerInfo, SnapshotInfo } from '../api/client';
+import { useSnapshots, useCreateSnapshot, useRestoreSnapshot, useDeleteSnapshot } from '../hooks/useContainers';
+import { formatBytes } from '../lib/utils';
+
+interface SnapshotTimelineProps {
+  container: ContainerInfo;
+}
+
+const reasonLabels: Record<SnapshotInfo['reason'], string> = {
+  manual: 'Snapshot',
+  reconfigure: 'Before reconfigure',
+  restore: 'Before restore',
+  clone: 'Clone source',
+};
+
+export function SnapshotTimeline({ container }: SnapshotTimelineProps) {
+  const [label, setLabel] = useState('');
+  const [includeVolumes, setIncludeVolumes] = useState(false);
+
+  const { data: snapshots, isLoading } = useSnapshots(container);
+  const createMutation = useCreateSnapshot(container);
+  const restoreMutation = useRestoreSnapshot(container);
+  const deleteMutation = useDeleteSnapshot(container);
+
+  const hasVolumes = container.volumes.length > 0;
+  const error = createMutation.error || restoreMutation.error || deleteMutation.error;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createMutation.mutateAsync({ label: label || undefined, includeVolumes });
+      setLabel('');
+    } catch (error) {
+      console.error('Failed to create snapshot:', error);
+    }
+  };
+
+  const handleRestore = (snapshot: SnapshotInfo) => {
+    if (!confirm(`Restore "${container.name}" to ${snapshot.label || snapshot.id}? The current state is snapshotted first.`)) return;
+
+    let restoreVolumes = false;
+    if (snapshot.volumes.length > 0) {
+      restoreVolumes = confirm(
+        `Also overwrite ${snapshot.volumes.join(', ')} with the copies saved in this snapshot?`
+      );
+    }
+    restoreMutation.mutate({ snapshotId: snapshot.id, restoreVolumes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label (optional)"
+          maxLength={100}
+          className="flex-1 rounded-md border border-gray-600 bg-gray-900/70 px-3 py-1.5 text-sm text-gray-200 placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+        />
+        {hasVolumes && (
+          <label className="flex items-center gap-1.5 text-xs text-gray-400" title="Save tar copies of attached volumes">
+            <input
+              type="checkbox"
+              checked={includeVolumes}
+              onChange={(e) => setIncludeVolumes(e.target.checked)}
+              className="h-3.5 w-3.5 rounded border-gray-600"
+            />
+            Volumes
+          </label>
+        )}
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="flex items-center gap-1.5 rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+          Snapshot
+        </button>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-red-900/20 p-2 text-sm text-red-400">{error.message}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+        </div>
+      ) : !snapshots || snapshots.length === 0 ? (
+        <p className="py-2 text-center text-sm text-gray-500">No snapshots yet.</p>
+      ) : (
+        <ol className="relative ml-2 max-h-72 overflow-y-auto border-l border-gray-700">
+          {snapshots.map((snapshot) => {
+            const isCurrent = snapshot.image === container.image;
+            return (
+              <li key={snapshot.id} className="mb-3 ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-gray-800 ${
+                    isCurrent ? 'bg-green-400' : 'bg-gray-500'
+                  }`}
+                />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm text-gray-200">
+                      {snapshot.label || reasonLabels[snapshot.reason]}
+                      {isCurrent && <span className="ml-2 text-xs text-green-400">current</span>}
+                    </p>
+                    <p className="flex items-center gap-2 text-xs text-gray-500">
+                      <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                      <span>{formatBytes(snapshot.size)}</span>
+                      {snapshot.volumes.length > 0 && (
+                        <span className="flex items-center gap-1" title={snapshot.volumes.join(', ')}>
+                          <HardDrive className="h-3 w-3" />
+                          {snapshot.volumes.length}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={restoreMutation.isPending || isCurrent}
+                      className="rounded-md p-1.5 text-gray-500 hover:bg-gray-700 hover:text-blue-400 disabled:opacity-50"
+                      title="Restore"
+                    >
+                      {restoreMutation.isPending && restoreMutation.variables?.snapshotId === snapshot.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete snapshot ${snapshot.label || snapshot.id}?`)) {
+                          deleteMutation.mutate(snapshot.id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending || isCurrent}
+                      className="rounded-md p-1.5 text-gray-500 hover:bg-gray-700 hover:text-red-400 disabled:opacity-50"
+                      title="Delete snapshot"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+interface SparklineProps {
+  values: number[];
+  max?: number; // Fixed top of the scale; defaults to the largest value
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export function Sparkline({ values, max, width = 120, height = 28, className = 'text-blue-400' }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={className} />;
+  }
+
+  const top = Math.max(max ?? Math.max(...values), 1e-9);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((v, i) => `${(i * step).toFixed(1)},${(height - (Math.min(v, top) / top) * (height - 2) - 1).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className={className} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+      <polyline
+        points={`0,${height} ${points} ${width},${height}`}
+        fill="currentColor"
+        fillOpacity={0.15}
+        stroke="none"
+      />
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
@@ -0,0 +1,159 @@
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, Loader2, KeyRound, Box } from 'lucide-react';
+import { useSshKeys, useAddSshKey, useRemoveSshKey, useContainers } from '../hooks/useContainers';
+
+// Teammates' public keys; containers created with a key's name trust it
+export function SshKeyManager() {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+
+  const { data: keys, isLoading } = useSshKeys();
+  const { data: containers } = useContainers();
+  const addMutation = useAddSshKey();
+  const removeMutation = useRemoveSshKey();
+
+  // Key name -> containers that trust it
+  const keyUsage = useMemo(() => {
+    const usage = new Map<string, string[]>();
+    for (const container of containers || []) {
+      for (const key of container.authorizedKeys) {
+        usage.set(key, [...(usage.get(key) || []), container.name]);
+      }
+    }
+    return usage;
+  }, [containers]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name || !publicKey) return;
+
+    try {
+      await addMutation.mutateAsync({ name, publicKey });
+      setName('');
+      setPublicKey('');
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Failed to add SSH key:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-white p-4 dark:bg-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <KeyRound className="h-5 w-5" />
+          SSH Keys
+        </h3>
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Key
+        </button>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="mb-4 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="alice"
+            pattern="^[a-zA-Z0-9][a-zA-Z0-9_.-]*$"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            autoFocus
+          />
+          <textarea
+            value={publicKey}
+            onChange={(e) => setPublicKey(e.target.value)}
+            rows={3}
+            placeholder="ssh-ed25519 AAAA... alice@laptop"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          />
+          {addMutation.error && (
+            <p className="text-xs text-red-600">{addMutation.error.message}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={addMutation.isPending || !name || !publicKey}
+              className="rounded-md bg-green-600 px-3 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="rounded-md px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {keys && keys.length > 0 ? (
+        <ul className="space-y-2">
+          {keys.map((key) => {
+            const usedBy = keyUsage.get(key.name) || [];
+
+            return (
+              <li key={key.name} className="rounded-md bg-gray-50 px-3 py-2 dark:bg-gray-700">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="font-medium text-gray-900 dark:text-white">{key.name}</span>
+                    <p className="truncate font-mono text-xs text-gray-500 dark:text-gray-400" title={key.publicKey}>
+                      {key.fingerprint}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      const msg = usedBy.length > 0
+                        ? `Remove key "${key.name}"? It will lose access to ${usedBy.length} container(s).`
+                        : `Remove key "${key.name}"?`;
+                      if (confirm(msg)) {
+                        removeMutation.mutate(key.name);
+                      }
+                    }}
+                    disabled={removeMutation.isPending}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-red-600 dark:hover:bg-gray-600"
+                    title="Remove key"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                {usedBy.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {usedBy.map((container) => (
+                      <span
+                        key={container}
+                        className="inline-flex items-center gap-1 rounded bg-gray-200 px-1.5 py-0.5 text-xs text-gray-600 dark:bg-gray-600 dark:text-gray-300"
+                      >
+                        <Box className="h-3 w-3" />
+                        {container}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No keys yet. Add a teammate's public key to let them SSH in with their own identity.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Loader2, RotateCw } from 'lucide-react';
+import { useSshKeyStatus, useRotateSshKey } from '../hooks/useContainers';
+
+const graceOptions = [
+  { value: 0, label: 'None' },
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '1 day' },
+  { value: 24 * 7, label: '1 week' },
+];
+
+// Replace the app-wide SSH key. Running containers get the new key at once,
+// stopped ones when they next start; the old key keeps working for the grace window,
+// and the key can't be rotated again until that ends.
+export function SshKeyRotation() {
+  const { data: status } = useSshKeyStatus();
+  const rotateMutation = useRotateSshKey();
+  const [graceHours, setGraceHours] = useState(24);
+  const [confirming, setConfirming] = useState(false);
+
+  const result = rotateMutation.data;
+
+  const handleRotate = () => {
+    setConfirming(false);
+    rotateMutation.mutate(graceHours);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={graceHours}
+          onChange={(e) => setGraceHours(parseInt(e.target.value, 10))}
+          title="How long the old key keeps working"
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+        >
+          {graceOptions.map((o) => (
+            <option key={o.value} value={o.value}>Grace: {o.label}</option>
+          ))}
+        </select>
+        {confirming ? (
+          <>
+            <button
+              type="button"
+              onClick={handleRotate}
+              className="rounded-md bg-amber-600 px-3 py-2 text-sm font-medium text-white hover:bg-amber-700"
+            >
+              Confirm
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirming(false)}
+              className="rounded-md px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            disabled={rotateMutation.isPending || !!status?.graceUntil}
+            title={status?.graceUntil ? 'Available once the old key\'s grace window ends' : undefined}
+            className="flex items-center gap-1.5 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            {rotateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+            Rotate Key
+          </button>
+        )}
+      </div>
+
+      {status?.rotatedAt && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Last rotated {new Date(status.rotatedAt).toLocaleString()}
+          {status.graceUntil && <>; old key accepted until {new Date(status.graceUntil).toLocaleString()}</>}
+        </p>
+      )}
+      {result && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {result.updated.length} updated, {result.pending.length} updated on next start
+          {result.failed.length > 0 && (
+            <span className="text-red-500"> · failed: {result.failed.map((f) => f.name).join(', ')}</span>
+          )}
+        </p>
+      )}
+      {rotateMutation.error && (
+        <p className="text-xs text-red-500">{rotateMutation.error.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { RotateCcw } from 'lucide-react';
+import type { ContainerInfo, TerminalServerMessage } from '../api/client';
+import { getTerminalUrl } from '../api/client';
+
+interface TerminalViewProps {
+  container: ContainerInfo;
+}
+
+export function TerminalView({ container }: TerminalViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<'connecting' | 'connected' | 'closed'>('connecting');
+  const [session, setSession] = useState(0); // Bump to reconnect
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const term = new Terminal({
+      cursorBlink: true,
+      fontSize: 13,
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+      theme: { background: '#111827' },
+    });
+    const fitAddon = new FitAddon();
+    term.loadAddon(fitAddon);
+    term.open(containerRef.current);
+    fitAddon.fit();
+
+    let ws: WebSocket | null = null;
+    let disposed = false;
+    setStatus('connecting');
+
+    const send = (message: object) => {
+      if (ws?.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    getTerminalUrl(container.id, term.cols, term.rows).then((url) => {
+      if (disposed) return;
+
+      ws = new WebSocket(url);
+      ws.binaryType = 'arraybuffer';
+
+      ws.onopen = () => {
+        setStatus('connected');
+        term.focus();
+      };
+
+      ws.onmessage = (event) => {
+        if (typeof event.data === 'string') {
+          const message = JSON.parse(event.data) as TerminalServerMessage;
+          if (message.type === 'exit') {
+            term.write(`\r\n\x1b[90m[Process exited with code ${message.code ?? '?'}]\x1b[0m\r\n`);
+          } else if (message.type === 'error') {
+            term.write(`\r\n\x1b[31m${message.message}\x1b[0m\r\n`);
+          }
+        } else {
+          term.write(new Uint8Array(event.data));
+        }
+      };
+
+      ws.onclose = () => {
+        if (!disposed) setStatus('closed');
+      };
+    }).catch((err) => {
+      term.write(`\x1b[31m${err.message}\x1b[0m\r\n`);
+      setStatus('closed');
+    });
+
+    const dataListener = term.onData((data) => send({ type: 'input', data }));
+    const resizeListener = term.onResize(({ cols, rows }) => send({ type: 'resize', cols, rows }));
+
+    const observer = new ResizeObserver(() => fitAddon.fit());
+    observer.observe(containerRef.current);
+
+    return () => {
+      disposed = true;
+      observer.disconnect();
+      dataListener.dispose();
+      resizeListener.dispose();
+      ws?.close();
+      term.dispose();
+    };
+  }, [container.id, session]);
+
+  return (
+    <div className="rounded-lg border border-gray-700/50 bg-gray-900 overflow-hidden">
+      <div ref={containerRef} className="h-72 p-2" />
+      <div className="flex items-center justify-between px-3 py-1.5 border-t border-gray-700/50 text-xs text-gray-500">
+        <span>
+          {status === 'connecting' && 'Connecting...'}
+          {status === 'connected' && 'Connected as dev'}
+          {status === 'closed' && 'Disconnected'}
+        </span>
+        {status === 'closed' && (
+          <button
+            onClick={() => setSession(session + 1)}
+            className="flex items-center gap-1 rounded-md px-2 py-0.5 text-gray-400 hover:bg-gray-700 hover:text-gray-200 transition-colors"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reconnect
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
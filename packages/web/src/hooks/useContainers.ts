@@ -1,14 +1,70 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import * as api from '../api/client';
 
-export function useContainers() {
+// search uses the server's query language; previous results stay visible
+// while a new search loads
+export function useContainers(search = '') {
   return useQuery({
-    queryKey: ['containers'],
-    queryFn: api.listContainers,
-    refetchInterval: 5000, // Poll every 5 seconds
+    queryKey: ['containers', { search }],
+    queryFn: () => api.listContainers({ q: search }),
+    placeholderData: keepPreviousData,
   });
 }
 
+// Keep queries fresh from the server event stream instead of polling
+export function useServerEvents() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    return api.subscribeToEvents((event) => {
+      switch (event.type) {
+        case 'container':
+        case 'lifecycle':
+        case 'readiness':
+          queryClient.invalidateQueries({ queryKey: ['containers'] });
+          break;
+        case 'build':
+          queryClient.invalidateQueries({ queryKey: ['containers'] });
+          queryClient.invalidateQueries({ queryKey: ['builds'] });
+          break;
+        case 'image':
+          queryClient.invalidateQueries({ queryKey: ['images'] });
+          break;
+        case 'reset':
+          queryClient.invalidateQueries({ queryKey: ['containers'] });
+          queryClient.invalidateQueries({ queryKey: ['builds'] });
+          queryClient.invalidateQueries({ queryKey: ['images'] });
+          break;
+      }
+    });
+  }, [queryClient]);
+}
+
+const STATS_HISTORY_LENGTH = 60;
+
+// Rolling window of stats samples per container, plus the latest totals
+export function useStatsHistory() {
+  const [history, setHistory] = useState<Record<string, api.ContainerStats[]>>({});
+  const [totals, setTotals] = useState<api.StatsSnapshot['totals'] | null>(null);
+
+  useEffect(() => {
+    return api.subscribeToStats((snapshot) => {
+      setTotals(snapshot.totals);
+      setHistory((previous) => {
+        const next: Record<string, api.ContainerStats[]> = {};
+        for (const stats of snapshot.containers) {
+          const samples = previous[stats.containerId] || [];
+          next[stats.containerId] = [...samples, stats].slice(-STATS_HISTORY_LENGTH);
+        }
+        return next;
+      });
+    });
+  }, []);
+
+  return { history, totals };
+}
+
 export function useContainer(id: string) {
   return useQuery({
     queryKey: ['containers', id],
@@ -27,6 +83,33 @@ export function useCreateContainer() {
   });
 }
 
+export function useCancelBuild() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.cancelBuild,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useBuildHistory(query: api.BuildHistoryQuery) {
+  return useQuery({
+    queryKey: ['builds', query],
+    queryFn: () => api.listBuildHistory(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useBuildRecord(id: string | null) {
+  return useQuery({
+    queryKey: ['builds', 'record', id],
+    queryFn: () => api.getBuildRecord(id!),
+    enabled: !!id,
+  });
+}
+
 export function useStartContainer() {
   const queryClient = useQueryClient();
 
@@ -42,7 +125,62 @@ export function useStopContainer() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: api.stopContainer,
+    mutationFn: (id: string) => api.stopContainer(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useRestartContainer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.restartContainer(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function usePauseContainer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.pauseContainer,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useUnpauseContainer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.unpauseContainer,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useKillContainer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, signal }: { id: string; signal: api.KillSignal }) => api.killContainer(id, signal),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useBulkContainerAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.bulkContainerAction,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['containers'] });
     },
@@ -72,6 +210,77 @@ export function useReconfigureContainer() {
   });
 }
 
+export function useUpdateContainerMetadata() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...metadata }: { id: string; tags?: string[]; notes?: string }) =>
+      api.updateContainerMetadata(id, metadata),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+    },
+  });
+}
+
+export function useCloneContainer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...request }: { id: string } & api.CloneContainerRequest) =>
+      api.cloneContainer(id, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+      queryClient.invalidateQueries({ queryKey: ['snapshots'] });
+    },
+  });
+}
+
+// Snapshots are keyed by container name, which survives restores
+export function useSnapshots(container: api.ContainerInfo) {
+  return useQuery({
+    queryKey: ['snapshots', container.name],
+    queryFn: () => api.listSnapshots(container.id),
+  });
+}
+
+export function useCreateSnapshot(container: api.ContainerInfo) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (options: { label?: string; includeVolumes?: boolean }) =>
+      api.createSnapshot(container.id, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshots', container.name] });
+      queryClient.invalidateQueries({ queryKey: ['images'] });
+    },
+  });
+}
+
+export function useRestoreSnapshot(container: api.ContainerInfo) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ snapshotId, restoreVolumes }: { snapshotId: string; restoreVolumes?: boolean }) =>
+      api.restoreSnapshot(container.id, snapshotId, { restoreVolumes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['containers'] });
+      queryClient.invalidateQueries({ queryKey: ['snapshots', container.name] });
+    },
+  });
+}
+
+export function useDeleteSnapshot(container: api.ContainerInfo) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (snapshotId: string) => api.deleteSnapshot(container.id, snapshotId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['snapshots', container.name] });
+      queryClient.invalidateQueries({ queryKey: ['images'] });
+    },
+  });
+}
+
 export function useImages() {
   return useQuery({
     queryKey: ['images'],
@@ -119,6 +328,35 @@ export function useRemoveVolume() {
   });
 }
 
+export function useSshKeys() {
+  return useQuery({
+    queryKey: ['ssh-keys'],
+    queryFn: api.listSshKeys,
+  });
+}
+
+export function useAddSshKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.addSshKey,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ssh-keys'] });
+    },
+  });
+}
+
+export function useRemoveSshKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.removeSshKey,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ssh-keys'] });
+    },
+  });
+}
+
 export function useDockerfiles() {
   return useQuery({
     queryKey: ['dockerfiles'],
@@ -162,3 +400,21 @@ export function useUpdateConfig() {
     },
   });
 }
+
+export function useSshKeyStatus() {
+  return useQuery({
+    queryKey: ['ssh-key'],
+    queryFn: api.getSshKeyStatus,
+  });
+}
+
+export function useRotateSshKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.rotateSshKey,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ssh-key'] });
+    },
+  });
+}